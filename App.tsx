@@ -1,83 +1,406 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { VideoPlayer } from './components/CameraView';
 import { ResultCard } from './components/ResultCard';
-import { analyzeFrameWithQuery, detectCharactersInFrame } from './services/geminiService';
-import { AppState, AnalysisResult, BoundingBox } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CastProfileCard } from './components/CastProfileCard';
+import { RosterEditor } from './components/RosterEditor';
+import { createSceneAnalysisProvider, readProviderConfig } from './services/providerConfig';
+import { createCachedProvider } from './services/responseCache';
+import { addHistoryEntry, createThumbnail } from './services/historyStore';
+import { buildCastProfileQuery } from './services/castProfile';
+import { emptyRoster, isRosterEmpty, loadRoster, saveRoster } from './services/castRoster';
+import { SceneAnalysisError } from './services/errors';
+import { AppState, AnalysisRequest, AnalysisResult, BoundingBox, CastRoster, ConversationTurn, DetectedProduct, DetectionDiagnostics, DetectionOptions, HistoryEntry, MediaContext, ViewingSession } from './types';
+
+const provider = createCachedProvider(createSceneAnalysisProvider(readProviderConfig()));
+
+// The player knows the title and position; the show/episode come from the user's cast roster
+const withRosterDetails = (media: MediaContext | undefined, roster: CastRoster | null): MediaContext | undefined =>
+  media && roster && !isRosterEmpty(roster)
+    ? { ...media, show: roster.show || undefined, season: roster.season, episode: roster.episode }
+    : media;
+
+// Rough location words so the search targets the right item when several are alike
+const describePosition = ({ xmin, xmax, ymin, ymax }: DetectedProduct) => {
+  const x = (xmin + xmax) / 2;
+  const y = (ymin + ymax) / 2;
+  const vertical = y < 333 ? "top" : y > 666 ? "bottom" : "middle";
+  const horizontal = x < 333 ? "left" : x > 666 ? "right" : "center";
+  return vertical === "middle" && horizontal === "center" ? "center" : `${vertical} ${horizontal}`;
+};
+
+// Shopping question for a tapped hotspot; phrased so the provider picks its grounded shopping strategy
+const buildProductQuery = (product: DetectedProduct) => {
+  const brand = product.brand ? ` (it looks like ${product.brand})` : "";
+  return `Where can I buy the ${product.color} ${product.description.toLowerCase()} at the ${describePosition(product)} of the frame${brand}? Show the exact item or the closest matches with prices.`;
+};
+
+type RecoveryAction = 'retry' | 'use-mock' | 'dismiss';
+
+interface ErrorNotice {
+  title: string;
+  message: string;
+  action: RecoveryAction;
+  // Re-runs the failed request, for the 'retry' action
+  retry?: () => void;
+}
+
+// What to tell the viewer for each kind of failure, and the one thing most likely to get them going again
+const describeError = (err: unknown): ErrorNotice => {
+  if (!(err instanceof SceneAnalysisError)) {
+    return { title: "Error", message: "Failed to analyze the scene. Please try again.", action: 'retry' };
+  }
+  switch (err.kind) {
+    case 'rate-limit': {
+      const when = err.retryAfterMs ? `in about ${Math.ceil(err.retryAfterMs / 1000)}s` : "in a moment";
+      return { title: "Too many requests", message: `The AI quota is used up for now. Try again ${when}.`, action: 'retry' };
+    }
+    case 'overloaded':
+      return { title: "AI is busy", message: "The model is overloaded right now. Trying again usually works within a minute.", action: 'retry' };
+    case 'network':
+      return { title: "No connection", message: "Couldn't reach the AI service. Check your internet connection and try again.", action: 'retry' };
+    case 'safety-block':
+      return { title: "Blocked", message: "The model declined this frame or question under its safety filters. Try another frame or rephrase the question.", action: 'dismiss' };
+    case 'invalid-key':
+      return { title: "API key rejected", message: "The API key is missing, invalid or has no access to the model. Check GEMINI_API_KEY in .env, or explore with the offline demo.", action: 'use-mock' };
+    case 'malformed-response':
+      return { title: "Unreadable answer", message: "The answer came back incomplete or garbled. Trying again usually fixes it.", action: 'retry' };
+  }
+};
+
+// An empty detection is only "nothing found" if the response itself was usable; dropped items mean a fresh try may do better
+const describeEmptyDetection = (diagnostics: DetectionDiagnostics, nothingFound: string): ErrorNotice =>
+  diagnostics.warnings.length > 0
+    ? { title: "Unreadable answer", message: `The model's boxes couldn't be used (${diagnostics.warnings[0]}). Trying again usually fixes it.`, action: 'retry' }
+    : { title: "Nothing found", message: nothingFound, action: 'dismiss' };
+
+// Reload on the fixture-backed provider, which needs no key
+const switchToOfflineDemo = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('provider', 'mock');
+  window.location.assign(url);
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [boundingBoxes, setBoundingBoxes] = useState<BoundingBox[] | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Frame the cast tags were found in, and the profile opened from a tag
+  const [castFrame, setCastFrame] = useState<{ imageData: string; media?: MediaContext } | null>(null);
+  const [castProfile, setCastProfile] = useState<{ box: BoundingBox; turn: ConversationTurn | null; isStreaming: boolean; error: string | null } | null>(null);
+  // Bumped per profile request, so a slow answer for a previous tag can't overwrite the current one;
+  // closing the card or picking another tag also aborts the (grounded, paid) call
+  const profileRequestRef = useRef(0);
+  const profileAbortRef = useRef<AbortController | null>(null);
+  // The request the UI is waiting on; starting another or cancelling aborts it, and the id bump drops a late answer
+  const requestIdRef = useRef(0);
+  const requestAbortRef = useRef<AbortController | null>(null);
+  // "Shop the Scene" hotspots and the frame they were found in
+  const [productScan, setProductScan] = useState<{ imageData: string; media?: MediaContext; products: DetectedProduct[] } | null>(null);
+  const [errorNotice, setErrorNotice] = useState<ErrorNotice | null>(null);
   const [mediaTitle, setMediaTitle] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  // The turn currently being answered (streams in before it joins the thread)
+  const [pendingTurn, setPendingTurn] = useState<ConversationTurn | null>(null);
+  const [followUpError, setFollowUpError] = useState<string | null>(null);
+  // Q&A history panel
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [seekRequest, setSeekRequest] = useState<{ time: number; id: number } | null>(null);
+  // User-supplied cast list for the loaded title, sent with every question and detection
+  const [roster, setRoster] = useState<CastRoster | null>(null);
+  const [isRosterOpen, setIsRosterOpen] = useState(false);
+  // What was asked and identified since the media was loaded (for export)
+  const [session, setSession] = useState<ViewingSession | null>(null);
+
+  // Persist a finished turn for the current title; history is best-effort and never blocks the answer
+  const recordHistory = useCallback(async (thread: AnalysisResult, turn: ConversationTurn) => {
+    if (!mediaTitle) return;
+    try {
+      const entry: HistoryEntry = {
+        mediaTitle,
+        query: turn.query,
+        answer: turn.answer,
+        groundingMetadata: turn.groundingMetadata,
+        thumbnail: await createThumbnail(thread.imageData),
+        timestamp: thread.timestamp ?? 0,
+        createdAt: Date.now(),
+      };
+      setSession(prev => prev && { ...prev, questions: [...prev.questions, entry] });
+      await addHistoryEntry(entry);
+      setHistoryRefreshKey(k => k + 1);
+    } catch (err) {
+      console.warn("Failed to save history entry", err);
+    }
+  }, [mediaTitle]);
 
-  const getFriendlyErrorMessage = (err: any) => {
-    const msg = err?.message || JSON.stringify(err);
-    if (msg.includes('429') || msg.includes('quota') || msg.includes('RESOURCE_EXHAUSTED')) {
-      return "High Traffic: AI Server is busy. Please wait a moment and try again.";
+  const recordCastTags = useCallback(async (imageData: string, boxes: BoundingBox[], timestamp: number) => {
+    try {
+      const thumbnail = await createThumbnail(imageData);
+      setSession(prev => prev && {
+        ...prev,
+        castTags: [...prev.castTags, { boxes, thumbnail, timestamp, createdAt: Date.now() }],
+      });
+    } catch (err) {
+      console.warn("Failed to record cast tags", err);
     }
-    return "Failed to analyze the scene. Please try again.";
+  }, []);
+
+  const beginRequest = () => {
+    requestAbortRef.current?.abort();
+    const controller = new AbortController();
+    requestAbortRef.current = controller;
+    return { id: ++requestIdRef.current, signal: controller.signal };
+  };
+
+  const abandonRequest = () => {
+    requestIdRef.current++;
+    requestAbortRef.current?.abort();
+    requestAbortRef.current = null;
   };
 
   // Handle Text/Voice Query with optional Audio Context
-  const handleAnalyze = useCallback(async (imageData: string, query: string, audioData?: string | null) => {
+  const handleAnalyze = useCallback(async (request: AnalysisRequest) => {
+    const { imageData, query, audioData, recentFrames, subtitles, transcript, region, regionImageData } = request;
+    const { id, signal } = beginRequest();
+    const media = withRosterDetails(request.media, roster);
+    const thread: AnalysisResult = { imageData, audioData, recentFrames, timestamp: media?.currentTime, subtitles, transcript, region, regionImageData, roster, media, turns: [] };
     setAppState(AppState.ANALYZING);
-    setErrorMsg(null);
+    setErrorNotice(null);
     setBoundingBoxes(null); // Clear previous boxes if any
+    setFollowUpError(null);
+    setAnalysisResult(thread);
 
     try {
-      const result = await analyzeFrameWithQuery(imageData, query, audioData);
-      setAnalysisResult(result);
+      const turn = await provider.analyzeFrameWithQuery({ ...request, media, roster, signal }, (partialAnswer) => {
+        if (id !== requestIdRef.current) return;
+        // Open the drawer on the first token instead of waiting for the full answer
+        setPendingTurn({ query, answer: partialAnswer });
+        setAppState(AppState.STREAMING);
+      });
+      if (id !== requestIdRef.current) return;
+      setPendingTurn(null);
+      setAnalysisResult({ ...thread, turns: [turn] });
       setAppState(AppState.RESULT);
+      recordHistory(thread, turn);
     } catch (err) {
+      // Cancelled or superseded: whoever did that has already moved the UI on
+      if (id !== requestIdRef.current) return;
       console.error(err);
-      setErrorMsg(getFriendlyErrorMessage(err));
+      setPendingTurn(null);
+      setAnalysisResult(null);
+      setErrorNotice({ ...describeError(err), retry: () => handleAnalyze(request) });
       setAppState(AppState.ERROR);
     }
-  }, []);
+  }, [recordHistory, roster]);
+
+  // Handle a follow-up question in the open thread (same frame & audio, earlier turns as history)
+  const handleFollowUp = useCallback(async (query: string) => {
+    if (!analysisResult) return;
+    const thread = analysisResult;
+    const { id, signal } = beginRequest();
+    setPendingTurn({ query, answer: "" });
+    setFollowUpError(null);
+    setAppState(AppState.STREAMING);
+
+    try {
+      const turn = await provider.analyzeFrameWithQuery({
+        imageData: thread.imageData,
+        query,
+        audioData: thread.audioData,
+        recentFrames: thread.recentFrames,
+        media: thread.media,
+        subtitles: thread.subtitles,
+        transcript: thread.transcript,
+        region: thread.region,
+        regionImageData: thread.regionImageData,
+        roster: thread.roster,
+        history: thread.turns,
+        signal,
+      }, (partialAnswer) => {
+        if (id === requestIdRef.current) setPendingTurn({ query, answer: partialAnswer });
+      });
+      if (id !== requestIdRef.current) return;
+      setAnalysisResult({ ...thread, turns: [...thread.turns, turn] });
+      recordHistory(thread, turn);
+    } catch (err) {
+      if (id !== requestIdRef.current) return;
+      console.error(err);
+      setFollowUpError(describeError(err).message);
+    }
+    setPendingTurn(null);
+    setAppState(AppState.RESULT);
+  }, [analysisResult, recordHistory]);
+
+  const closeCastProfile = () => {
+    profileRequestRef.current++;
+    profileAbortRef.current?.abort();
+    profileAbortRef.current = null;
+    setCastProfile(null);
+  };
 
   // Handle Character Identification
-  const handleIdentify = useCallback(async (imageData: string) => {
+  const handleIdentify = useCallback(async (imageData: string, options: DetectionOptions = {}) => {
+    const media = withRosterDetails(options.media, roster);
+    const { id, signal } = beginRequest();
     setAppState(AppState.ANALYZING);
-    setErrorMsg(null);
+    setErrorNotice(null);
     setAnalysisResult(null);
     setBoundingBoxes(null); // Ensure clear start
+    setProductScan(null);
+    closeCastProfile();
 
     try {
-      const boxes = await detectCharactersInFrame(imageData);
+      const { items: boxes, diagnostics } = await provider.detectCharactersInFrame(imageData, { ...options, media, roster, signal });
+      if (id !== requestIdRef.current) return;
       if (boxes.length === 0) {
-          setErrorMsg("No main characters identified in this frame.");
+          setErrorNotice({ ...describeEmptyDetection(diagnostics, "No main characters identified in this frame."), retry: () => handleIdentify(imageData, { ...options, fresh: true }) });
           setBoundingBoxes(null); // Explicit clear on empty
           setAppState(AppState.ERROR);
       } else {
           setBoundingBoxes(boxes);
+          setCastFrame({ imageData, media });
           setAppState(AppState.PLAYING); // Go back to player to show annotations
+          recordCastTags(imageData, boxes, media?.currentTime ?? 0);
       }
     } catch (err) {
+      if (id !== requestIdRef.current) return;
       console.error(err);
       setBoundingBoxes(null); // Explicit clear on error
-      setErrorMsg(getFriendlyErrorMessage(err));
+      setErrorNotice({ ...describeError(err), retry: () => handleIdentify(imageData, options) });
       setAppState(AppState.ERROR);
     }
+  }, [recordCastTags, roster]);
+
+  // A clicked cast tag asks the grounded answer path for a profile; it opens beside the tags rather than as a thread
+  const handleSelectCast = useCallback(async (box: BoundingBox) => {
+    if (!castFrame) return;
+    const requestId = ++profileRequestRef.current;
+    profileAbortRef.current?.abort();
+    const controller = new AbortController();
+    profileAbortRef.current = controller;
+    const query = buildCastProfileQuery(box.name, castFrame.media?.show || mediaTitle, castFrame.media?.currentTime);
+    setCastProfile({ box, turn: null, isStreaming: true, error: null });
+
+    try {
+      const turn = await provider.analyzeFrameWithQuery({ imageData: castFrame.imageData, query, media: castFrame.media, roster, signal: controller.signal }, (partialAnswer) => {
+        if (requestId === profileRequestRef.current) {
+          setCastProfile({ box, turn: { query, answer: partialAnswer }, isStreaming: true, error: null });
+        }
+      });
+      if (requestId === profileRequestRef.current) {
+        setCastProfile({ box, turn, isStreaming: false, error: null });
+      }
+    } catch (err) {
+      if (requestId !== profileRequestRef.current) return;
+      console.error(err);
+      setCastProfile({ box, turn: null, isStreaming: false, error: describeError(err).message });
+    }
+  }, [castFrame, mediaTitle, roster]);
+
+  const handleShopScene = useCallback(async (imageData: string, options: DetectionOptions = {}) => {
+    const media = withRosterDetails(options.media, roster);
+    const { id, signal } = beginRequest();
+    setAppState(AppState.ANALYZING);
+    setErrorNotice(null);
+    setAnalysisResult(null);
+    setBoundingBoxes(null);
+    setProductScan(null);
+    closeCastProfile();
+
+    try {
+      const { items: products, diagnostics } = await provider.detectProductsInFrame(imageData, { ...options, media, signal });
+      if (id !== requestIdRef.current) return;
+      if (products.length === 0) {
+        setErrorNotice({ ...describeEmptyDetection(diagnostics, "No shoppable items found in this frame."), retry: () => handleShopScene(imageData, { ...options, fresh: true }) });
+        setAppState(AppState.ERROR);
+      } else {
+        setProductScan({ imageData, media, products });
+        setAppState(AppState.PLAYING);
+      }
+    } catch (err) {
+      if (id !== requestIdRef.current) return;
+      console.error(err);
+      setErrorNotice({ ...describeError(err), retry: () => handleShopScene(imageData, options) });
+      setAppState(AppState.ERROR);
+    }
+  }, [roster]);
+
+  // A tapped hotspot becomes a grounded shopping question about the scanned frame; the hotspots stay up for the next tap
+  const handleSelectProduct = useCallback((product: DetectedProduct) => {
+    if (!productScan) return;
+    handleAnalyze({
+      imageData: productScan.imageData,
+      query: buildProductQuery(product),
+      media: productScan.media,
+    });
+  }, [productScan, handleAnalyze]);
+
+  // Live cast tracking runs while playing, so failures are handled by the player rather than AppState
+  const handleTrackCast = useCallback((imageData: string, media?: MediaContext, signal?: AbortSignal) =>
+    provider.detectCharactersInFrame(imageData, { roster, media: withRosterDetails(media, roster), signal }).then(result => result.items), [roster]);
+
+  const handleSummarizeScene = useCallback((imageData: string, signal?: AbortSignal) => provider.summarizeScene(imageData, { signal }), []);
+
+  const handleTranscribe = useCallback((audioData: string, signal?: AbortSignal) => provider.transcribeAudio(audioData, { signal }), []);
+
+  // Cancel during ANALYZING: drop the request (and any backoff wait) and go back to the paused frame
+  const cancelAnalysis = useCallback(() => {
+    abandonRequest();
+    setPendingTurn(null);
+    setAnalysisResult(null);
+    setAppState(AppState.PLAYING);
   }, []);
 
   const closeResult = () => {
+    // Closing mid-stream stops the answer instead of letting it reopen the card when it completes
+    abandonRequest();
     setAppState(AppState.PLAYING);
     setAnalysisResult(null);
-    setErrorMsg(null);
+    setPendingTurn(null);
+    setFollowUpError(null);
+    setErrorNotice(null);
   };
 
   const closeAnnotations = () => {
     setBoundingBoxes(null);
+    setProductScan(null);
+    closeCastProfile();
     setAppState(AppState.PLAYING);
   };
 
   const handleMediaLoaded = useCallback((title: string | null) => {
     setMediaTitle(title);
+    setIsHistoryOpen(false);
+    setIsRosterOpen(false);
+    setRoster(title ? loadRoster(title) : null);
+    setSession(title ? { mediaTitle: title, startedAt: Date.now(), questions: [], castTags: [] } : null);
   }, []);
 
+  const handleRosterSave = (updated: CastRoster) => {
+    saveRoster(updated);
+    setRoster(updated);
+    setIsRosterOpen(false);
+  };
+
+  // Jump back to the moment of a saved question and reopen its answer
+  const handleHistorySelect = (entry: HistoryEntry) => {
+    setIsHistoryOpen(false);
+    setBoundingBoxes(null);
+    setProductScan(null);
+    closeCastProfile();
+    setPendingTurn(null);
+    setFollowUpError(null);
+    setSeekRequest({ time: entry.timestamp, id: Date.now() });
+    setAnalysisResult({
+      imageData: entry.thumbnail,
+      timestamp: entry.timestamp,
+      turns: [{ query: entry.query, answer: entry.answer, groundingMetadata: entry.groundingMetadata }],
+    });
+    setAppState(AppState.RESULT);
+  };
+
   return (
     <div className="h-full w-full relative flex flex-col bg-gray-950 text-white overflow-hidden font-sans">
       
@@ -90,6 +413,11 @@ const App: React.FC = () => {
               {mediaTitle}
             </span>
           )}
+          {provider.name === 'mock' && (
+            <span className="text-[10px] font-mono uppercase tracking-wider text-amber-300 bg-amber-500/10 border border-amber-400/30 px-2 py-0.5 rounded-full">
+              Offline Mock
+            </span>
+          )}
         </h1>
       </div>
 
@@ -98,29 +426,123 @@ const App: React.FC = () => {
         <VideoPlayer 
           onAnalyze={handleAnalyze}
           onIdentify={handleIdentify}
+          onShopScene={handleShopScene}
+          onSelectProduct={handleSelectProduct}
+          onSelectCast={handleSelectCast}
+          onTrackCast={handleTrackCast}
+          onSummarizeScene={handleSummarizeScene}
+          onTranscribe={handleTranscribe}
           isAnalyzing={appState === AppState.ANALYZING}
+          onCancelAnalysis={cancelAnalysis}
           annotations={boundingBoxes}
+          products={productScan?.products ?? null}
           onCloseAnnotations={closeAnnotations}
           onMediaLoaded={handleMediaLoaded}
           onPlayStateChange={setIsPlaying}
+          activeRegion={appState === AppState.RESULT || appState === AppState.STREAMING ? analysisResult?.region : null}
+          seekRequest={seekRequest}
         />
       </div>
 
+      {/* History Toggle - Hides when playing */}
+      {mediaTitle && !isPlaying && !isHistoryOpen && (
+        <button
+          onClick={() => { setIsHistoryOpen(true); setIsRosterOpen(false); }}
+          className="absolute top-4 left-4 z-40 bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all"
+          title="Question history"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+      )}
+
+      {/* Cast Roster Toggle */}
+      {mediaTitle && !isPlaying && !isRosterOpen && (
+        <button
+          onClick={() => { setIsRosterOpen(true); setIsHistoryOpen(false); }}
+          className="absolute top-4 left-16 z-40 bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all flex items-center gap-1.5"
+          title="Cast roster"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+          </svg>
+          {!isRosterEmpty(roster) && (
+            <span className="text-[10px] font-mono text-blue-200 pr-1">{roster!.characters.length}</span>
+          )}
+        </button>
+      )}
+
+      {/* Cast Roster Editor */}
+      {isRosterOpen && mediaTitle && (
+        <RosterEditor
+          key={mediaTitle}
+          roster={roster ?? emptyRoster(mediaTitle)}
+          onSave={handleRosterSave}
+          onClose={() => setIsRosterOpen(false)}
+        />
+      )}
+
+      {/* History Panel */}
+      {isHistoryOpen && mediaTitle && (
+        <HistoryPanel
+          mediaTitle={mediaTitle}
+          refreshKey={historyRefreshKey}
+          session={session}
+          onSelect={handleHistorySelect}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Character Profile (from a clicked cast tag) */}
+      {castProfile && (
+        <CastProfileCard
+          name={castProfile.box.name}
+          turn={castProfile.turn}
+          isStreaming={castProfile.isStreaming}
+          error={castProfile.error}
+          onRetry={() => handleSelectCast(castProfile.box)}
+          onClose={closeCastProfile}
+        />
+      )}
+
       {/* Text Result Overlay */}
-      {appState === AppState.RESULT && analysisResult && (
-        <ResultCard result={analysisResult} onClose={closeResult} />
+      {(appState === AppState.RESULT || appState === AppState.STREAMING) && analysisResult && (
+        <ResultCard
+          result={analysisResult}
+          pendingTurn={pendingTurn}
+          followUpError={followUpError}
+          onFollowUp={handleFollowUp}
+          onClose={closeResult}
+        />
       )}
 
       {/* Error Toast */}
-      {appState === AppState.ERROR && (
+      {appState === AppState.ERROR && errorNotice && (
         <div className="absolute bottom-10 left-4 right-4 z-50 flex justify-center animate-fade-in-up">
            <div className="bg-red-600 text-white px-6 py-4 rounded-xl shadow-2xl flex items-center gap-4 max-w-md w-full border border-red-400">
              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6 shrink-0">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
               </svg>
              <div className="flex-1">
-               <p className="font-bold">Error</p>
-               <p className="text-sm text-red-100 leading-snug">{errorMsg}</p>
+               <p className="font-bold">{errorNotice.title}</p>
+               <p className="text-sm text-red-100 leading-snug">{errorNotice.message}</p>
+               {errorNotice.action === 'retry' && errorNotice.retry && (
+                 <button
+                   onClick={errorNotice.retry}
+                   className="mt-2 px-3 py-1 text-xs font-semibold bg-white/15 hover:bg-white/25 border border-white/30 rounded-lg transition-colors"
+                 >
+                   Try again
+                 </button>
+               )}
+               {errorNotice.action === 'use-mock' && (
+                 <button
+                   onClick={switchToOfflineDemo}
+                   className="mt-2 px-3 py-1 text-xs font-semibold bg-white/15 hover:bg-white/25 border border-white/30 rounded-lg transition-colors"
+                 >
+                   Use offline demo
+                 </button>
+               )}
              </div>
              <button onClick={() => setAppState(AppState.PLAYING)} className="p-2 hover:bg-red-700 rounded-lg transition-colors">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BoundingBox, DetectedProduct, FrameRegion } from '../types';
+import { DisplayRect, useDisplayedMediaRect } from './mediaRect';
+
+interface AnnotationOverlayProps {
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLImageElement | null>;
+  annotations: BoundingBox[];
+  products: DetectedProduct[];
+  // Taps are ignored while a scan or an answer is in flight
+  disabled: boolean;
+  onSelectCast: (box: BoundingBox) => void;
+  onSelectProduct: (product: DetectedProduct) => void;
+}
+
+type Hovered = { kind: 'cast' | 'product'; index: number } | null;
+
+interface LabelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Label type follows the displayed picture size (not the source resolution), within readable bounds
+const LABEL_FONT_RATIO = 0.02;
+const MIN_FONT_PX = 11;
+const MAX_FONT_PX = 20;
+// Product hotspot size relative to the picture's shorter side
+const HOTSPOT_RADIUS_RATIO = 0.022;
+// Gap between labels and the frame edge, as a fraction of the font size
+const EDGE_GAP = 0.6;
+// How many rows up or down a label may move to get out of another label's way
+const MAX_LABEL_SHIFTS = 3;
+
+const FONT_FAMILY = '"Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (text: string, font: string) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const intersects = (a: LabelRect, b: LabelRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// First candidate clear of the labels already placed; if none is, the first one anyway
+const placeLabel = (candidates: LabelRect[], placed: LabelRect[]) => {
+  const label = candidates.find(c => !placed.some(p => intersects(c, p))) ?? candidates[0];
+  placed.push(label);
+  return label;
+};
+
+// Smallest 0-1000 box under a point, so e.g. sunglasses win over the jacket around them
+const boxAtPoint = (boxes: FrameRegion[], x: number, y: number) => {
+  const hits = boxes
+    .map((box, index) => ({ index, area: (box.xmax - box.xmin) * (box.ymax - box.ymin) }))
+    .filter(({ index }) => {
+      const b = boxes[index];
+      return x >= b.xmin && x <= b.xmax && y >= b.ymin && y <= b.ymax;
+    });
+  return hits.length > 0 ? hits.reduce((a, b) => (b.area < a.area ? b : a)).index : null;
+};
+
+const toPixels = (box: FrameRegion, rect: DisplayRect) => ({
+  x: (box.xmin / 1000) * rect.width,
+  y: (box.ymin / 1000) * rect.height,
+  width: ((box.xmax - box.xmin) / 1000) * rect.width,
+  height: ((box.ymax - box.ymin) / 1000) * rect.height,
+});
+
+interface CastLabel extends LabelRect {
+  // Pointer tip under the pill, when the pill floats above the character
+  pointerX: number | null;
+}
+
+// Name pills above each character's head, flipped inside the box near the top edge and nudged apart when they collide
+const layoutCastLabels = (boxes: BoundingBox[], rect: DisplayRect, fontSize: number, placed: LabelRect[]): CastLabel[] => {
+  const font = `bold ${fontSize}px ${FONT_FAMILY}`;
+  const height = fontSize * 2;
+  const gap = fontSize * EDGE_GAP;
+  const clampX = (x: number, width: number) => Math.max(gap, Math.min(x, rect.width - width - gap));
+  const clampY = (y: number) => Math.max(gap, Math.min(y, rect.height - height - gap));
+
+  return boxes.map(box => {
+    const area = toPixels(box, rect);
+    const width = measureText(box.name, font) + fontSize * 1.5;
+    const centerX = area.x + area.width / 2;
+    const x = clampX(centerX - width / 2, width);
+    const above = area.y - height - gap;
+    const inside = area.y + gap;
+
+    const rows = [above >= gap ? above : inside];
+    for (let shift = 1; shift <= MAX_LABEL_SHIFTS; shift++) {
+      rows.push(rows[0] - shift * (height + gap / 2), rows[0] + shift * (height + gap / 2));
+    }
+    const label = placeLabel(rows.map(y => ({ x, y: clampY(y), width, height })), placed);
+    const isAbove = label.y + height <= area.y;
+    return { ...label, pointerX: isAbove ? Math.max(x + fontSize / 2, Math.min(centerX, x + width - fontSize / 2)) - x : null };
+  });
+};
+
+interface ProductLabel extends LabelRect {
+  centerX: number;
+  centerY: number;
+  // Left-hand labels are anchored by their right edge so the longer hover text grows away from the dot
+  side: 'left' | 'right';
+}
+
+// A dot at the center of each item with its category beside it, on whichever side has room
+const layoutProductLabels = (products: DetectedProduct[], rect: DisplayRect, fontSize: number, radius: number, placed: LabelRect[]): ProductLabel[] => {
+  const font = `600 ${fontSize}px ${FONT_FAMILY}`;
+  const height = fontSize * 1.8;
+
+  return products.map(product => {
+    const area = toPixels(product, rect);
+    const centerX = area.x + area.width / 2;
+    const centerY = area.y + area.height / 2;
+    const width = measureText(product.category, font) + fontSize;
+    const offset = radius * 1.6;
+    const right = { x: centerX + offset, y: centerY - height / 2, width, height };
+    const left = { ...right, x: centerX - offset - width };
+    const sides = right.x + width > rect.width ? [left, right] : [right, left];
+
+    const candidates = [...sides];
+    for (let shift = 1; shift <= MAX_LABEL_SHIFTS; shift++) {
+      candidates.push({ ...sides[0], y: right.y - shift * height }, { ...sides[0], y: right.y + shift * height });
+    }
+    // The dot itself counts as taken, so other labels don't cover it
+    placed.push({ x: centerX - radius, y: centerY - radius, width: radius * 2, height: radius * 2 });
+    const label = placeLabel(candidates, placed);
+    return { ...label, centerX, centerY, side: label.x < centerX ? 'left' : 'right' };
+  });
+};
+
+// Cast tags and product hotspots laid out over the displayed picture; re-laid out whenever it resizes
+export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ mediaRef, annotations, products, disabled, onSelectCast, onSelectProduct }) => {
+  const rect = useDisplayedMediaRect(mediaRef);
+  const [hovered, setHovered] = useState<Hovered>(null);
+
+  // A new scan (or closing it) invalidates the hovered index
+  useEffect(() => {
+    setHovered(null);
+  }, [annotations, products]);
+
+  const layout = useMemo(() => {
+    if (!rect) return null;
+    const fontSize = Math.max(MIN_FONT_PX, Math.min(MAX_FONT_PX, rect.width * LABEL_FONT_RATIO));
+    const radius = Math.max(8, Math.min(rect.width, rect.height) * HOTSPOT_RADIUS_RATIO);
+    // Hotspots go first so name pills steer around them
+    const placed: LabelRect[] = [];
+    const productLabels = layoutProductLabels(products, rect, fontSize * 0.9, radius, placed);
+    const castLabels = layoutCastLabels(annotations, rect, fontSize, placed);
+    return { fontSize, radius, productLabels, castLabels };
+  }, [rect, annotations, products]);
+
+  if (!rect || !layout) return null;
+
+  // Products win over the cast box around them, as the smaller and more specific target
+  const findAt = (e: React.PointerEvent | React.MouseEvent): Hovered => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 1000;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 1000;
+    const product = boxAtPoint(products, x, y);
+    if (product !== null) return { kind: 'product', index: product };
+    const cast = boxAtPoint(annotations, x, y);
+    return cast !== null ? { kind: 'cast', index: cast } : null;
+  };
+
+  const select = (target: Hovered) => {
+    if (!target || disabled) return;
+    if (target.kind === 'product') onSelectProduct(products[target.index]);
+    else onSelectCast(annotations[target.index]);
+  };
+
+  const isHovered = (kind: 'cast' | 'product', index: number) => hovered?.kind === kind && hovered.index === index;
+
+  return (
+    <div
+      className="absolute z-20 overflow-hidden select-none"
+      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      onMouseLeave={() => setHovered(null)}
+    >
+      {/* Hit area for the boxes themselves */}
+      <div
+        className={`absolute inset-0 ${hovered ? 'cursor-pointer' : ''}`}
+        onPointerMove={(e) => setHovered(findAt(e))}
+        onClick={(e) => select(findAt(e))}
+      />
+
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+        {annotations.map((box, index) => (
+          <rect
+            key={`cast-${index}`}
+            x={box.xmin}
+            y={box.ymin}
+            width={box.xmax - box.xmin}
+            height={box.ymax - box.ymin}
+            rx={6}
+            fill={isHovered('cast', index) ? 'rgba(59, 130, 246, 0.12)' : 'none'}
+            stroke={isHovered('cast', index) ? '#93c5fd' : 'rgba(59, 130, 246, 0.45)'}
+            strokeWidth={isHovered('cast', index) ? 2.5 : 1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {products.map((product, index) => isHovered('product', index) && (
+          <rect
+            key={`product-${index}`}
+            x={product.xmin}
+            y={product.ymin}
+            width={product.xmax - product.xmin}
+            height={product.ymax - product.ymin}
+            fill="none"
+            stroke="rgba(236, 72, 153, 0.9)"
+            strokeWidth={2}
+            strokeDasharray="8 6"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+
+      {/* Product hotspots */}
+      {layout.productLabels.map((label, index) => {
+        const product = products[index];
+        const active = isHovered('product', index);
+        const size = layout.radius * 2 * (active ? 1.25 : 1);
+        return (
+          <React.Fragment key={`product-${index}`}>
+            <button
+              onClick={() => select({ kind: 'product', index })}
+              onMouseEnter={() => setHovered({ kind: 'product', index })}
+              className="absolute flex items-center justify-center rounded-full bg-pink-500/35 shadow-lg shadow-black/60 transition-all"
+              style={{ left: label.centerX - size / 2, top: label.centerY - size / 2, width: size, height: size }}
+              aria-label={product.category}
+            >
+              <span className="rounded-full bg-white" style={{ width: layout.radius * 0.9, height: layout.radius * 0.9 }} />
+            </button>
+            <button
+              onClick={() => select({ kind: 'product', index })}
+              onMouseEnter={() => setHovered({ kind: 'product', index })}
+              className={`absolute flex items-center font-semibold text-white whitespace-nowrap transition-colors ${active ? 'z-10 bg-pink-600/95' : 'bg-gray-900/85'}`}
+              style={{
+                ...(label.side === 'left' ? { right: rect.width - (label.x + label.width) } : { left: label.x }),
+                top: label.y,
+                height: label.height,
+                padding: `0 ${layout.fontSize * 0.45}px`,
+                fontSize: layout.fontSize * 0.9,
+                fontFamily: FONT_FAMILY,
+              }}
+            >
+              {active ? [product.category, product.color, product.brand].filter(Boolean).join(' · ') : product.category}
+            </button>
+          </React.Fragment>
+        );
+      })}
+
+      {/* Cast name pills */}
+      {layout.castLabels.map((label, index) => {
+        const active = isHovered('cast', index);
+        return (
+          <button
+            key={`cast-${index}`}
+            onClick={() => select({ kind: 'cast', index })}
+            onMouseEnter={() => setHovered({ kind: 'cast', index })}
+            className={`absolute flex items-center justify-center font-bold text-white whitespace-nowrap rounded-lg shadow-lg shadow-black/60 transition-colors ${
+              active ? 'z-10 bg-blue-900/95 border-2 border-blue-300' : 'bg-gray-900/90 border border-blue-500'
+            }`}
+            style={{ left: label.x, top: label.y, width: label.width, height: label.height, fontSize: layout.fontSize, fontFamily: FONT_FAMILY }}
+          >
+            {annotations[index].name}
+            {label.pointerX !== null && (
+              <span
+                className="absolute top-full -translate-x-1/2 w-0 h-0 border-x-[6px] border-x-transparent border-t-[6px] border-t-blue-500"
+                style={{ left: label.pointerX }}
+              />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
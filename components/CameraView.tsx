@@ -1,169 +1,437 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { BoundingBox } from '../types';
+import { AnalysisRequest, BoundingBox, DetectedProduct, DetectionOptions, FrameRegion, MediaContext, SceneIndex, SceneSummary, SubtitleCue, TimedFrame } from '../types';
+import { addCastKeyframe, CastKeyframe, interpolateCast } from '../services/castTracking';
+import { buildSceneIndex, loadSceneIndex, saveSceneIndex } from '../services/sceneIndexer';
+import { createAudioCapture, AudioCapture } from '../services/audioCapture';
+import { encodeAudioClip } from '../services/audioEncoding';
+import { isAbortError } from '../services/errors';
+import { cuesAround, isSubtitleFile, mergeCues, parseSubtitles, toWebVTT } from '../services/subtitles';
+import { LiveCastOverlay } from './LiveCastOverlay';
+import { ChapterTimeline } from './ChapterTimeline';
+import { TranscriptPanel } from './TranscriptPanel';
+import { RegionSelector } from './RegionSelector';
+import { AnnotationOverlay } from './AnnotationOverlay';
 
 interface VideoPlayerProps {
-  onAnalyze: (imageData: string, query: string, audioData?: string | null) => void;
-  onIdentify: (imageData: string) => void;
+  onAnalyze: (request: AnalysisRequest) => void;
+  onIdentify: (imageData: string, options?: DetectionOptions) => void;
+  onShopScene: (imageData: string, options?: DetectionOptions) => void;
+  // Tapping a product hotspot
+  onSelectProduct: (product: DetectedProduct) => void;
+  // Clicking a cast tag
+  onSelectCast: (box: BoundingBox) => void;
+  onTrackCast?: (imageData: string, media?: MediaContext, signal?: AbortSignal) => Promise<BoundingBox[]>;
+  onSummarizeScene?: (imageData: string, signal?: AbortSignal) => Promise<SceneSummary>;
+  onTranscribe?: (audioData: string, signal?: AbortSignal) => Promise<SubtitleCue[]>;
   isAnalyzing: boolean;
+  // Abandon the request ANALYZING is waiting on
+  onCancelAnalysis: () => void;
   annotations: BoundingBox[] | null;
+  products: DetectedProduct[] | null;
   onCloseAnnotations: () => void;
   onMediaLoaded: (title: string | null) => void;
   onPlayStateChange?: (isPlaying: boolean) => void;
+  // Region of the open answer thread, kept outlined while the answer is shown
+  activeRegion?: FrameRegion | null;
+  // Jump the video to a moment (e.g. from history); `id` lets the same time be requested twice
+  seekRequest?: { time: number; id: number } | null;
 }
 
-// Helper to encode Float32Array to WAV
-const encodeWAV = (samples: Float32Array, sampleRate: number) => {
-  const buffer = new ArrayBuffer(44 + samples.length * 2);
-  const view = new DataView(buffer);
-
-  // RIFF identifier
-  writeString(view, 0, 'RIFF');
-  // file length
-  view.setUint32(4, 36 + samples.length * 2, true);
-  // RIFF type
-  writeString(view, 8, 'WAVE');
-  // format chunk identifier
-  writeString(view, 12, 'fmt ');
-  // format chunk length
-  view.setUint32(16, 16, true);
-  // sample format (raw)
-  view.setUint16(20, 1, true);
-  // channel count
-  view.setUint16(22, 1, true);
-  // sample rate
-  view.setUint32(24, sampleRate, true);
-  // byte rate (sample rate * block align)
-  view.setUint32(28, sampleRate * 2, true);
-  // block align (channel count * bytes per sample)
-  view.setUint16(32, 2, true);
-  // bits per sample
-  view.setUint16(34, 16, true);
-  // data chunk identifier
-  writeString(view, 36, 'data');
-  // data chunk length
-  view.setUint32(40, samples.length * 2, true);
-
-  floatTo16BitPCM(view, 44, samples);
-
-  return buffer;
+// Rolling visual context: one downscaled frame per second, covering the last few seconds
+const FRAME_SAMPLE_INTERVAL_MS = 1000;
+const FRAME_BUFFER_SECONDS = 5;
+const FRAME_SAMPLE_WIDTH = 320;
+
+// Live cast tracking: detection cadence choices (seconds) and how often tag positions refresh
+const LIVE_CAST_INTERVAL_OPTIONS = [2, 5, 10];
+const LIVE_CAST_FRAME_WIDTH = 640;
+const LIVE_CAST_RENDER_MS = 250;
+
+// Draw the current video frame onto a scratch canvas, scaled down to at most `maxWidth`
+const captureScaledFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, maxWidth: number, quality: number): string | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !video.videoWidth) return null;
+
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
 };
 
-const floatTo16BitPCM = (output: DataView, offset: number, input: Float32Array) => {
-  for (let i = 0; i < input.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-  }
-};
+// Rolling audio context kept for questions about "what was just said / playing"
+const AUDIO_WINDOW_SECONDS = 10;
+const AUDIO_CAPTURE_CHANNELS = 1;
 
-const writeString = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-};
+// AI captions: new audio is sent for transcription this often (must stay under the audio window),
+// and the latest line lingers on screen while the next chunk is still being transcribed
+const CAPTION_CHUNK_SECONDS = 8;
+const CAPTION_LINGER_SECONDS = CAPTION_CHUNK_SECONDS + 4;
 
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({ 
   onAnalyze, 
   onIdentify, 
+  onShopScene,
+  onSelectProduct,
+  onSelectCast,
+  onTrackCast,
+  onSummarizeScene,
+  onTranscribe,
   isAnalyzing, 
+  onCancelAnalysis,
   annotations,
+  products,
   onCloseAnnotations,
   onMediaLoaded,
-  onPlayStateChange
+  onPlayStateChange,
+  activeRegion,
+  seekRequest
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
   
   // Audio Context Refs
   const audioCtxRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const audioBufferRef = useRef<Float32Array[]>([]); // Rolling buffer chunks
+  const captureRef = useRef<AudioCapture | null>(null); // AudioWorklet ring buffer
+
+  // Frame sampling Refs
+  const frameBufferRef = useRef<TimedFrame[]>([]); // Rolling buffer of downscaled frames
+  const frameSamplerRef = useRef<HTMLCanvasElement | null>(null); // Offscreen, so the annotation canvas is untouched
+
+  // Live cast tracking Refs
+  const castKeyframesRef = useRef<CastKeyframe[]>([]);
+  const castInFlightRef = useRef(false);
+
+  // AI caption Refs
+  const captionCursorRef = useRef(0); // Media time up to which audio has been sent for transcription
+  const captionInFlightRef = useRef(false);
+  const captionEpochRef = useRef(0); // Bumped per media, so late transcriptions of an old clip are dropped
+
+  // Scene scan Refs
+  const scanAbortRef = useRef<AbortController | null>(null);
+  // Audio snapshot + encode before a question is handed to onAnalyze; Cancel aborts it like the request itself
+  const submitAbortRef = useRef<AbortController | null>(null);
   
   const [mediaSrc, setMediaSrc] = useState<string | null>(null);
   const [mediaType, setMediaType] = useState<'video' | 'image' | null>(null);
+  // Stable identity of the loaded file, used to persist per-file data like the scene index
+  const [mediaKey, setMediaKey] = useState<string | null>(null);
   const [isPaused, setIsPaused] = useState(false);
   const [query, setQuery] = useState("");
+  // "Fresh answer" override: bypass the response cache for the next question
+  const [skipCache, setSkipCache] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // Live cast tracking (opt-in)
+  const [isLiveCast, setIsLiveCast] = useState(false);
+  const [liveCastIntervalSec, setLiveCastIntervalSec] = useState(5);
+  const [liveTags, setLiveTags] = useState<BoundingBox[]>([]);
+
+  // Scene index (chapter timeline)
+  const [sceneIndex, setSceneIndex] = useState<SceneIndex | null>(null);
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
+
+  // Subtitle track attached to the video (parsed cues + a WebVTT blob URL for <track>)
+  const [subtitles, setSubtitles] = useState<{ label: string; cues: SubtitleCue[]; url: string } | null>(null);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+
+  // AI captions (live transcription of the rolling audio buffer)
+  const [isCaptioning, setIsCaptioning] = useState(false);
+  const [transcript, setTranscript] = useState<SubtitleCue[]>([]);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [mediaTitle, setMediaTitle] = useState("");
   
   // Local processing state to prevent double clicks instantly
   const [localProcessing, setLocalProcessing] = useState(false);
+  // Set by Cancel so the question drawer survives the end of ANALYZING with the query still in it
+  const keepDrawerOpenRef = useRef(false);
   
   // Drawer & Swipe State
   const [isQueryDrawerOpen, setIsQueryDrawerOpen] = useState(false);
+  // Optional part of the paused frame the question is about; the drawer steps aside while it is drawn
+  const [region, setRegion] = useState<FrameRegion | null>(null);
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
 
   // Setup Audio Recording when video loads
   useEffect(() => {
-    if (mediaType === 'video' && videoRef.current) {
-      // Small delay to ensure video element is ready in DOM
-      const timer = setTimeout(() => {
-        try {
-          if (!videoRef.current) return;
-          
-          const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
-          const ctx = new AudioContextClass();
-          audioCtxRef.current = ctx;
-
-          // Note: createMediaElementSource requires CORS if using a remote URL. 
-          // Since we use createObjectURL from a local file OR a CORS-enabled demo URL, it should be safe.
-          const source = ctx.createMediaElementSource(videoRef.current);
-          sourceNodeRef.current = source;
-
-          // Use ScriptProcessor for capturing audio (approx 10 sec buffer)
-          // 4096 buffer size, 1 input channel, 1 output channel
-          const processor = ctx.createScriptProcessor(4096, 1, 1);
-          processorRef.current = processor;
-
-          // CRITICAL FIX: Connect source to destination (speakers) so user can hear it
-          source.connect(ctx.destination);
-          
-          // Also connect source to processor to capture it
-          source.connect(processor);
-          
-          // Connect processor to destination to keep it alive (but it outputs silence as we don't copy buffer)
-          processor.connect(ctx.destination);
-
-          processor.onaudioprocess = (e) => {
-            if (!videoRef.current?.paused) {
-               const inputData = e.inputBuffer.getChannelData(0);
-               // Clone data to avoid reference issues
-               const chunk = new Float32Array(inputData);
-               
-               // Add to rolling buffer
-               audioBufferRef.current.push(chunk);
-
-               // Maintain approx 10 seconds of history
-               // 44100 Hz * 10 sec = 441,000 samples. 
-               // 4096 per chunk => ~108 chunks
-               const maxChunks = 110; 
-               if (audioBufferRef.current.length > maxChunks) {
-                  audioBufferRef.current = audioBufferRef.current.slice(audioBufferRef.current.length - maxChunks);
-               }
-            }
-          };
-        } catch (e) {
-          console.warn("Audio Context setup failed (likely due to CORS or browser policy)", e);
-        }
-      }, 100);
+    if (mediaType !== 'video') return;
 
-      return () => clearTimeout(timer);
-    }
+    let cancelled = false;
+    let ctx: AudioContext | null = null;
+
+    // Small delay to ensure video element is ready in DOM
+    const timer = setTimeout(async () => {
+      try {
+        if (!videoRef.current) return;
+
+        const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+        ctx = new AudioContextClass() as AudioContext;
+        audioCtxRef.current = ctx;
+
+        // Note: createMediaElementSource requires CORS if using a remote URL. 
+        // Since we use createObjectURL from a local file OR a CORS-enabled demo URL, it should be safe.
+        const source = ctx.createMediaElementSource(videoRef.current);
+        sourceNodeRef.current = source;
+
+        // CRITICAL FIX: Connect source to destination (speakers) so user can hear it
+        source.connect(ctx.destination);
+
+        // Capture runs on the audio thread, so long pauses on the main thread no longer drop audio
+        const capture = await createAudioCapture(ctx, source, {
+          windowSeconds: AUDIO_WINDOW_SECONDS,
+          channels: AUDIO_CAPTURE_CHANNELS,
+        });
+        if (cancelled) {
+          capture.dispose();
+          return;
+        }
+        capture.setRecording(!videoRef.current?.paused);
+        captureRef.current = capture;
+      } catch (e) {
+        console.warn("Audio Context setup failed (likely due to CORS or browser policy)", e);
+      }
+    }, 100);
 
     return () => {
       // Cleanup
-      if (audioCtxRef.current && audioCtxRef.current.state !== 'closed') {
-        audioCtxRef.current.close();
+      cancelled = true;
+      clearTimeout(timer);
+      captureRef.current?.dispose();
+      captureRef.current = null;
+      if (ctx && ctx.state !== 'closed') {
+        ctx.close();
       }
-      audioBufferRef.current = [];
     };
   }, [mediaSrc, mediaType]);
 
+  // Sample downscaled frames while the video plays
+  useEffect(() => {
+    if (mediaType !== 'video' || isPaused) return;
+
+    const interval = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.paused || video.seeking || !video.videoWidth) return;
+
+      if (!frameSamplerRef.current) {
+        frameSamplerRef.current = document.createElement('canvas');
+      }
+      const imageData = captureScaledFrame(video, frameSamplerRef.current, FRAME_SAMPLE_WIDTH, 0.6);
+      if (!imageData) return;
+
+      const timestamp = video.currentTime;
+      // Drop frames outside the window, including any left over from before a seek
+      frameBufferRef.current = [
+        ...frameBufferRef.current.filter(f => f.timestamp < timestamp && f.timestamp >= timestamp - FRAME_BUFFER_SECONDS),
+        { timestamp, imageData },
+      ];
+    }, FRAME_SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [mediaSrc, mediaType, isPaused]);
+
+  // Live cast: detect characters on a timer while the video plays
+  useEffect(() => {
+    if (!isLiveCast || mediaType !== 'video' || isPaused || !onTrackCast) return;
+
+    // Pausing, switching off or changing media stops a detection that is still running
+    const controller = new AbortController();
+    const detect = async () => {
+      const video = videoRef.current;
+      // Skip a tick rather than pile up requests if the previous detection is still running
+      if (!video || video.paused || video.seeking || castInFlightRef.current) return;
+
+      if (!frameSamplerRef.current) {
+        frameSamplerRef.current = document.createElement('canvas');
+      }
+      const imageData = captureScaledFrame(video, frameSamplerRef.current, LIVE_CAST_FRAME_WIDTH, 0.7);
+      if (!imageData) return;
+
+      const timestamp = video.currentTime;
+      castInFlightRef.current = true;
+      try {
+        const boxes = await onTrackCast(imageData, getMediaContext(), controller.signal);
+        castKeyframesRef.current = addCastKeyframe(castKeyframesRef.current, { timestamp, boxes });
+      } catch (err) {
+        if (!isAbortError(err)) console.warn("Live cast detection failed", err);
+      } finally {
+        castInFlightRef.current = false;
+      }
+    };
+
+    detect();
+    const interval = setInterval(detect, liveCastIntervalSec * 1000);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [isLiveCast, liveCastIntervalSec, mediaSrc, mediaType, isPaused, onTrackCast]);
+
+  // Live cast: resolve tag positions for the current playhead from the detections so far
+  useEffect(() => {
+    if (!isLiveCast || mediaType !== 'video') {
+      setLiveTags([]);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (!videoRef.current) return;
+      setLiveTags(interpolateCast(castKeyframesRef.current, videoRef.current.currentTime, {
+        holdSeconds: liveCastIntervalSec * 2,
+        maxGapSeconds: liveCastIntervalSec * 3,
+        extrapolateSeconds: liveCastIntervalSec,
+      }));
+    }, LIVE_CAST_RENDER_MS);
+
+    return () => clearInterval(interval);
+  }, [isLiveCast, liveCastIntervalSec, mediaType]);
+
+  // Detections from previous media don't apply to the new one
+  useEffect(() => {
+    castKeyframesRef.current = [];
+    setLiveTags([]);
+  }, [mediaSrc]);
+
+  // AI captions: transcribe the audio played since the last chunk
+  useEffect(() => {
+    if (!isCaptioning || subtitles || mediaType !== 'video' || isPaused || !onTranscribe) return;
+
+    const controller = new AbortController();
+    const transcribe = async () => {
+      const video = videoRef.current;
+      const capture = captureRef.current;
+      if (!video || !capture || video.paused || video.seeking || captionInFlightRef.current) return;
+
+      const epoch = captionEpochRef.current;
+      captionInFlightRef.current = true;
+      try {
+        const now = video.currentTime;
+        const snapshot = await capture.snapshot();
+        const available = snapshot.channels[0]?.length ?? 0;
+        // The ring buffer ends at `now`; only the part after the cursor is new
+        const from = Math.max(captionCursorRef.current, now - available / snapshot.sampleRate);
+        const skip = Math.round((from - (now - available / snapshot.sampleRate)) * snapshot.sampleRate);
+        captionCursorRef.current = now;
+        if (available - skip <= 0) return;
+
+        const clip = await encodeAudioClip({ ...snapshot, channels: snapshot.channels.map(c => c.subarray(skip)) }, {}, { signal: controller.signal });
+        if (!clip) return; // Silence
+
+        const cues = await onTranscribe(clip.dataUrl, controller.signal);
+        if (epoch !== captionEpochRef.current) return;
+        const offset = from + clip.offsetSeconds;
+        setTranscript(prev => mergeCues(prev, cues.map(cue => ({ ...cue, start: cue.start + offset, end: cue.end + offset }))));
+      } catch (err) {
+        if (!isAbortError(err)) console.warn("Transcription failed", err);
+      } finally {
+        captionInFlightRef.current = false;
+      }
+    };
+
+    const interval = setInterval(transcribe, CAPTION_CHUNK_SECONDS * 1000);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [isCaptioning, subtitles, mediaSrc, mediaType, isPaused, onTranscribe]);
+
+  // A transcript belongs to one clip
+  useEffect(() => {
+    captionEpochRef.current++;
+    captionCursorRef.current = 0;
+    setTranscript([]);
+    setIsTranscriptOpen(false);
+  }, [mediaSrc]);
+
+  const toggleCaptions = () => {
+    if (!isCaptioning) {
+      // Start from a clean buffer so every chunk maps onto a known stretch of media time
+      captureRef.current?.clear();
+      captionCursorRef.current = videoRef.current?.currentTime ?? 0;
+    }
+    setIsCaptioning(!isCaptioning);
+  };
+
+  // Audio buffered before a seek belongs to a different part of the clip
+  const handleVideoSeeked = () => {
+    if (!isCaptioning || !videoRef.current) return;
+    captureRef.current?.clear();
+    captionCursorRef.current = videoRef.current.currentTime;
+  };
+
+  // Restore a previously computed scene index for this file, and stop scanning the old one
+  useEffect(() => {
+    scanAbortRef.current?.abort();
+    scanAbortRef.current = null;
+    setScanProgress(null);
+    setScanError(null);
+    setSceneIndex(mediaKey ? loadSceneIndex(mediaKey) : null);
+  }, [mediaKey]);
+
+  const handleScanVideo = async () => {
+    // Clicking while a scan runs cancels it
+    if (scanAbortRef.current) {
+      scanAbortRef.current.abort();
+      return;
+    }
+    if (!mediaSrc || !mediaKey || !canvasRef.current || !onSummarizeScene) return;
+
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setScanProgress(0);
+    setScanError(null);
+
+    try {
+      const index = await buildSceneIndex(mediaSrc, mediaKey, canvasRef.current, onSummarizeScene, {
+        onProgress: setScanProgress,
+        signal: controller.signal,
+      });
+      saveSceneIndex(index);
+      setSceneIndex(index);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Scene scan failed", err);
+        setScanError("Scan failed");
+      }
+    } finally {
+      if (scanAbortRef.current === controller) {
+        scanAbortRef.current = null;
+        setScanProgress(null);
+      }
+    }
+  };
+
+  const seekVideo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setPlaybackTime(time);
+    }
+  };
+
+  // Seek requested from outside the player: land paused on that frame
+  useEffect(() => {
+    if (!seekRequest || mediaType !== 'video' || !videoRef.current) return;
+    videoRef.current.pause();
+    seekVideo(seekRequest.time);
+  }, [seekRequest]);
+
+  const toggleLiveCast = () => {
+    if (isLiveCast) {
+      castKeyframesRef.current = [];
+    }
+    setIsLiveCast(!isLiveCast);
+  };
+
   // Sync local processing state with prop
   useEffect(() => {
     if (!isAnalyzing) {
@@ -172,15 +440,6 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   }, [isAnalyzing]);
 
   // Async helper for blob to base64
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  };
-
   // Helper to get image data from current media
   const getSnapshot = (): string | null => {
     if (!canvasRef.current) return null;
@@ -210,18 +469,89 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     return canvas.toDataURL('image/jpeg', 0.8);
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Title, media type and playback position for prompts (App adds the user-entered show/episode)
+  const getMediaContext = (): MediaContext | undefined => {
+    if (!mediaType) return undefined;
+    const video = mediaType === 'video' ? videoRef.current : null;
+    return {
+      title: mediaTitle,
+      mediaType,
+      currentTime: video?.currentTime,
+      duration: video && Number.isFinite(video.duration) ? video.duration : undefined,
+    };
+  };
+
+  // Full-resolution crop of a region of the frame last drawn by getSnapshot
+  const getRegionCrop = (area: FrameRegion): string | null => {
+    const source = canvasRef.current;
+    if (!source || !source.width) return null;
+    const sx = (area.xmin / 1000) * source.width;
+    const sy = (area.ymin / 1000) * source.height;
+    const width = Math.max(1, Math.round(((area.xmax - area.xmin) / 1000) * source.width));
+    const height = Math.max(1, Math.round(((area.ymax - area.ymin) / 1000) * source.height));
+
+    const crop = document.createElement('canvas');
+    crop.width = width;
+    crop.height = height;
+    const ctx = crop.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(source, sx, sy, width, height, 0, 0, width, height);
+    return crop.toDataURL('image/jpeg', 0.9);
+  };
+
+  // Release the previous track's blob URL when it is replaced or the player unmounts
+  useEffect(() => {
+    return () => {
+      if (subtitles) URL.revokeObjectURL(subtitles.url);
+    };
+  }, [subtitles]);
+
+  const loadSubtitleFile = async (file: File) => {
+    try {
+      const cues = parseSubtitles(await file.text());
+      if (cues.length === 0) {
+        setSubtitleError("No subtitles found");
+        return;
+      }
+      const url = URL.createObjectURL(new Blob([toWebVTT(cues)], { type: 'text/vtt' }));
+      setSubtitles({ label: file.name.replace(/\.[^/.]+$/, ""), cues, url });
+      setSubtitleError(null);
+    } catch (e) {
+      console.warn("Failed to read subtitle file", e);
+      setSubtitleError("Subtitle file unreadable");
+    }
+  };
+
+  const handleSubtitleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    if (file) loadSubtitleFile(file);
+    // Allow picking the same file again after a failed parse
+    event.target.value = "";
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // The clip may be picked together with its .srt/.vtt file
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    const file = files.find(f => !isSubtitleFile(f));
+    const subtitleFile = files.find(isSubtitleFile);
     if (file) {
       const url = URL.createObjectURL(file);
       setMediaSrc(url);
+      setMediaKey(`${file.name}:${file.size}:${file.lastModified}`);
       setQuery(""); // Reset query
       setIsQueryDrawerOpen(false);
+      setRegion(null);
       onCloseAnnotations(); // Clear old annotations
       onMediaLoaded(file.name.replace(/\.[^/.]+$/, "")); // Pass clean filename
+      setMediaTitle(file.name.replace(/\.[^/.]+$/, ""));
+
+      // Clear audio & frame buffers
+      captureRef.current?.clear();
+      frameBufferRef.current = [];
 
-      // Clear audio buffer
-      audioBufferRef.current = [];
+      setSubtitles(null);
+      setSubtitleError(null);
+      if (subtitleFile) loadSubtitleFile(subtitleFile);
       
       if (file.type.startsWith('image/')) {
         setMediaType('image');
@@ -239,22 +569,33 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     // "Tears of Steel" - Blender Foundation Open Source Live Action Movie (CORS enabled)
     // Characters: Thom, Celia - Real humans, good for testing identification
     setMediaSrc("https://storage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4");
+    setMediaKey("demo:tears-of-steel");
     setMediaType('video');
     setQuery("");
     setIsQueryDrawerOpen(false);
+    setRegion(null);
     onCloseAnnotations();
     onMediaLoaded("Tears of Steel (Demo)");
-    audioBufferRef.current = [];
+    setMediaTitle("Tears of Steel");
+    captureRef.current?.clear();
+    frameBufferRef.current = [];
+    setSubtitles(null);
+    setSubtitleError(null);
     setIsPaused(false);
     onPlayStateChange?.(true);
   };
 
   const handleReset = () => {
     setMediaSrc(null);
+    setMediaKey(null);
+    setSubtitles(null);
+    setSubtitleError(null);
     setQuery("");
     setMediaType(null);
     onCloseAnnotations();
     setIsQueryDrawerOpen(false);
+    setRegion(null);
+    setIsSelectingRegion(false);
     onMediaLoaded(null);
     onPlayStateChange?.(false);
   };
@@ -263,7 +604,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (!videoRef.current?.seeking) {
       setIsPaused(true);
       onPlayStateChange?.(false);
-      // We assume processor stops via the `if (!paused)` check in loop
+      captureRef.current?.setRecording(false);
     }
   };
 
@@ -272,39 +613,72 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     onPlayStateChange?.(true);
     onCloseAnnotations();
     setIsQueryDrawerOpen(false);
+    setRegion(null);
+    setIsSelectingRegion(false);
     // Resume audio context if suspended
     if (audioCtxRef.current?.state === 'suspended') {
       audioCtxRef.current.resume();
     }
+    captureRef.current?.setRecording(true);
   };
 
   const handleSubmit = async (e: React.SyntheticEvent) => {
     e.preventDefault();
+    if (localProcessing || isAnalyzing) return;
     if (query.trim()) {
       setLocalProcessing(true); // Lock UI immediately
+      // Cancellable from here on, not just once the request is out
+      const controller = new AbortController();
+      submitAbortRef.current = controller;
       const dataUrl = getSnapshot();
       let audioBase64: string | null = null;
       
       // Capture audio if available and it's video
-      if (mediaType === 'video' && audioBufferRef.current.length > 0 && audioCtxRef.current) {
-         const totalLength = audioBufferRef.current.reduce((acc, chunk) => acc + chunk.length, 0);
-         const result = new Float32Array(totalLength);
-         let offset = 0;
-         for (const chunk of audioBufferRef.current) {
-            result.set(chunk, offset);
-            offset += chunk.length;
-         }
-         const wavBuffer = encodeWAV(result, audioCtxRef.current.sampleRate);
-         const blob = new Blob([wavBuffer], { type: 'audio/wav' });
+      const snapshot = mediaType === 'video' ? await captureRef.current?.snapshot() : undefined;
+      if (controller.signal.aborted) return;
+      if (snapshot) {
          try {
-            audioBase64 = await blobToBase64(blob);
+            // 16 kHz mono, silence trimmed, Opus where available, capped at the payload ceiling
+            const clip = await encodeAudioClip(snapshot, {}, { signal: controller.signal });
+            audioBase64 = clip?.dataUrl ?? null;
          } catch (err) {
+            if (isAbortError(err)) return;
             console.error("Audio encoding failed", err);
          }
       }
+      submitAbortRef.current = null;
+
+      // Earlier frames leading up to the pause (the paused frame itself is sent at full size)
+      let recentFrames: TimedFrame[] = [];
+      if (mediaType === 'video' && videoRef.current) {
+        const pausedAt = videoRef.current.currentTime;
+        recentFrames = frameBufferRef.current.filter(
+          f => f.timestamp < pausedAt - 0.25 && f.timestamp >= pausedAt - FRAME_BUFFER_SECONDS
+        );
+      }
+
+      // Dialogue around the pause, so answers can quote exact lines (AI captions only stand in for missing subtitles)
+      const subtitleContext = mediaType === 'video' && subtitles && videoRef.current
+        ? cuesAround(subtitles.cues, videoRef.current.currentTime)
+        : [];
+      const transcriptContext = mediaType === 'video' && !subtitles && videoRef.current
+        ? cuesAround(transcript, videoRef.current.currentTime)
+        : [];
+
+      const regionImageData = dataUrl && region ? getRegionCrop(region) : null;
 
       if (dataUrl) {
-        onAnalyze(dataUrl, query, audioBase64);
+        onAnalyze({
+          imageData: dataUrl,
+          query,
+          audioData: audioBase64,
+          media: getMediaContext(),
+          recentFrames,
+          subtitles: subtitleContext,
+          transcript: transcriptContext,
+          ...(region && regionImageData ? { region, regionImageData } : {}),
+          fresh: skipCache,
+        });
       } else {
         setLocalProcessing(false);
       }
@@ -317,13 +691,25 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   };
 
-  const handleIdentifyClick = () => {
+  const handleIdentifyClick = (fresh = false) => {
     if (localProcessing || isAnalyzing) return; // Prevent double click
     setLocalProcessing(true); // Lock immediately
     
     const dataUrl = getSnapshot();
     if (dataUrl) {
-      onIdentify(dataUrl);
+      onIdentify(dataUrl, { fresh, media: getMediaContext() });
+    } else {
+      setLocalProcessing(false);
+    }
+  };
+
+  const handleShopClick = (fresh = false) => {
+    if (localProcessing || isAnalyzing) return;
+    setLocalProcessing(true);
+
+    const dataUrl = getSnapshot();
+    if (dataUrl) {
+      onShopScene(dataUrl, { fresh, media: getMediaContext() });
     } else {
       setLocalProcessing(false);
     }
@@ -396,11 +782,21 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   // Close drawer when analysis finishes (so ResultCard can take focus)
   useEffect(() => {
-    if (!isAnalyzing && isQueryDrawerOpen) {
+    if (!isAnalyzing && isQueryDrawerOpen && !keepDrawerOpenRef.current) {
        setIsQueryDrawerOpen(false);
     }
+    keepDrawerOpenRef.current = false;
   }, [isAnalyzing]);
 
+  // Back to the paused frame; a cancelled question stays in the drawer, ready to edit or send again
+  const handleCancelAnalysis = () => {
+    submitAbortRef.current?.abort();
+    submitAbortRef.current = null;
+    keepDrawerOpenRef.current = true;
+    setLocalProcessing(false);
+    onCancelAnalysis();
+  };
+
   // Handle Fullscreen change events (ESC key)
   useEffect(() => {
     const handleFsChange = () => {
@@ -430,117 +826,13 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (touchStart - touchEnd > 50) setIsQueryDrawerOpen(false);
   };
 
-  // Handle drawing annotations
-  useEffect(() => {
-    if (annotations && annotations.length > 0 && canvasRef.current) {
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx) {
-         let width = canvasRef.current.width;
-         let height = canvasRef.current.height;
-
-         // Redraw base image
-         if (mediaType === 'video' && videoRef.current) {
-             width = videoRef.current.videoWidth;
-             height = videoRef.current.videoHeight;
-             ctx.drawImage(videoRef.current, 0, 0, width, height);
-         } else if (mediaType === 'image' && imgRef.current) {
-             width = imgRef.current.naturalWidth;
-             height = imgRef.current.naturalHeight;
-             ctx.drawImage(imgRef.current, 0, 0, width, height);
-         }
-
-         annotations.forEach(box => {
-            const x = (box.xmin / 1000) * width;
-            const y = (box.ymin / 1000) * height;
-            const w = ((box.xmax - box.xmin) / 1000) * width;
-
-            const text = box.name;
-            ctx.font = 'bold 16px "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
-            const textMetrics = ctx.measureText(text);
-            const textWidth = textMetrics.width;
-            
-            const paddingX = 12;
-            const contentWidth = textWidth + (paddingX * 2);
-            const contentHeight = 32;
-            
-            const centerX = x + (w / 2);
-            
-            // Calculate label position (floating above head)
-            let labelX = centerX - (contentWidth / 2);
-            let labelY = y - contentHeight - 15;
-
-            // Boundary checks
-            if (labelX < 10) labelX = 10;
-            if (labelX + contentWidth > width - 10) labelX = width - contentWidth - 10;
-            
-            // Flip if too close to top
-            const isFlipped = labelY < 10;
-            if (isFlipped) {
-               labelY = y + 15;
-            }
-
-            // --- Draw Label Background (Pill Shape) ---
-            ctx.save();
-            ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
-            ctx.shadowBlur = 6;
-            ctx.shadowOffsetX = 0;
-            ctx.shadowOffsetY = 3;
-
-            ctx.fillStyle = 'rgba(17, 24, 39, 0.9)'; // Dark background
-            ctx.strokeStyle = '#3b82f6'; // Blue-500 border
-            ctx.lineWidth = 1.5;
-
-            // Draw rounded rectangle
-            ctx.beginPath();
-            const radius = 8;
-            ctx.moveTo(labelX + radius, labelY);
-            ctx.lineTo(labelX + contentWidth - radius, labelY);
-            ctx.quadraticCurveTo(labelX + contentWidth, labelY, labelX + contentWidth, labelY + radius);
-            ctx.lineTo(labelX + contentWidth, labelY + contentHeight - radius);
-            ctx.quadraticCurveTo(labelX + contentWidth, labelY + contentHeight, labelX + contentWidth - radius, labelY + contentHeight);
-            ctx.lineTo(labelX + radius, labelY + contentHeight);
-            ctx.quadraticCurveTo(labelX, labelY + contentHeight, labelX, labelY + contentHeight - radius);
-            ctx.lineTo(labelX, labelY + radius);
-            ctx.quadraticCurveTo(labelX, labelY, labelX + radius, labelY);
-            ctx.closePath();
-            
-            ctx.fill();
-            ctx.stroke();
-            ctx.restore();
-
-            // --- Draw Pointer (Triangle) ---
-            if (!isFlipped) {
-              ctx.beginPath();
-              ctx.fillStyle = '#3b82f6';
-              const pointerY = labelY + contentHeight;
-              const pointerX = centerX;
-              const clampedPointerX = Math.max(labelX + radius, Math.min(pointerX, labelX + contentWidth - radius));
-              
-              ctx.moveTo(clampedPointerX, pointerY);
-              ctx.lineTo(clampedPointerX - 6, pointerY);
-              ctx.lineTo(clampedPointerX + 6, pointerY);
-              ctx.fill();
-            }
-
-            // --- Draw Text ---
-            ctx.fillStyle = '#ffffff';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(text, labelX + (contentWidth / 2), labelY + (contentHeight / 2) + 1);
-            
-            ctx.textAlign = 'start'; 
-            ctx.textBaseline = 'alphabetic';
-         });
-      }
-    }
-  }, [annotations, mediaType]);
-
   if (!mediaSrc) {
     return (
       <div className="flex flex-col items-center justify-center h-full bg-gray-900 p-6 text-center">
         <input 
           type="file" 
-          accept="video/*,image/*" 
+          accept="video/*,image/*,.srt,.vtt" 
+          multiple
           onChange={handleFileUpload} 
           className="hidden" 
           ref={fileInputRef}
@@ -556,6 +848,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
           </svg>
           <span className="text-gray-300 group-hover:text-white font-medium z-10">Upload Your Clip</span>
           <span className="text-gray-500 text-xs mt-2 z-10">MP4, WebM (e.g. Netflix Screen Record)</span>
+          <span className="text-gray-600 text-[10px] mt-1 z-10">Select an .srt / .vtt alongside it for subtitles</span>
         </div>
 
         <div className="flex items-center gap-4 my-8 w-72">
@@ -600,223 +893,485 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     );
   }
 
-  const showAnnotations = annotations && annotations.length > 0;
+  const showAnnotations = (annotations && annotations.length > 0) || (products && products.length > 0);
+
+  // The line being spoken now; transcription lags behind playback, so the newest line lingers briefly
+  const captionCue = mediaType === 'video' && !subtitles
+    ? transcript.find(cue => playbackTime >= cue.start && playbackTime < cue.end)
+      ?? (isCaptioning ? transcript.filter(cue => cue.start <= playbackTime && cue.end > playbackTime - CAPTION_LINGER_SECONDS).pop() : undefined)
+    : undefined;
   // Determine if we are busy (either parent is analyzing, or local lock is active)
   const isBusy = isAnalyzing || localProcessing;
+  // The selection stays outlined while it is being asked about and while its answer is open
+  const outlinedRegion = activeRegion ?? (isQueryDrawerOpen || isSelectingRegion || isBusy ? region : null);
+  const isFrameFocused = isQueryDrawerOpen || isSelectingRegion || !!outlinedRegion;
 
   return (
-    <div className="relative w-full h-full bg-black flex flex-col justify-center overflow-hidden">
+    <div className="w-full h-full flex flex-col bg-black">
+      <div className="relative w-full flex-1 min-h-0 bg-black flex flex-col justify-center overflow-hidden">
       
-      {/* Top Right Controls Group */}
-      <div className="absolute top-4 right-4 z-20 flex gap-3">
-        {/* Fullscreen Toggle */}
-        <button 
-          onClick={toggleFullscreen}
-          className="bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all"
-          title="Toggle Fullscreen"
-        >
-          {isFullscreen ? (
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M9 9V4.5M9 9H4.5M9 9L3.75 3.75M9 15v4.5M9 15H4.5M9 15l-5.25 5.25M15 9h4.5M15 9V4.5M15 9l5.25-5.25M15 15h4.5M15 15v4.5m0-4.5l5.25 5.25" />
-            </svg>
-          ) : (
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />
-            </svg>
+        {/* Top Right Controls Group */}
+        <div className="absolute top-4 right-4 z-20 flex gap-3">
+          {/* Scan Video (chapter index) */}
+          {mediaType === 'video' && onSummarizeScene && (
+            <button
+              onClick={handleScanVideo}
+              className={`bg-black/60 hover:bg-black/80 px-3 py-2 rounded-full backdrop-blur-md text-xs font-bold flex items-center gap-1.5 transition-all ${scanError ? 'text-red-300' : 'text-white'}`}
+              title={scanProgress !== null ? "Cancel scan" : "Split the video into scenes and summarize each one"}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 12h16.5m-16.5 3.75h16.5M3.75 19.5h16.5M5.625 4.5h12.75a1.875 1.875 0 010 3.75H5.625a1.875 1.875 0 010-3.75z" />
+              </svg>
+              {scanProgress !== null
+                ? `Scanning ${Math.round(scanProgress * 100)}%`
+                : scanError ?? (sceneIndex ? 'Rescan video' : 'Scan video')}
+            </button>
           )}
-        </button>
-
-        {/* Change Media Button */}
-        <button 
-          onClick={handleReset}
-          className="bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all"
-          title="Upload different file"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
-      </div>
-      
-      {/* Scanner Overlay - WOW Effect (No Grid) */}
-      {isBusy && (
-        <div className="absolute inset-0 z-30 pointer-events-none overflow-hidden">
-           {/* The moving line */}
-           <div className="absolute left-0 right-0 h-0.5 bg-blue-400 shadow-[0_0_20px_rgba(59,130,246,0.8)] scanner-line"></div>
-           {/* Subtle tint */}
-           <div className="absolute inset-0 bg-blue-900/10"></div>
-        </div>
-      )}
-      
-      {/* Video Element */}
-      {mediaType === 'video' && (
-        <video
-          ref={videoRef}
-          src={mediaSrc}
-          crossOrigin="anonymous" 
-          controls={!showAnnotations && !isQueryDrawerOpen}
-          playsInline
-          className={`w-full max-h-full object-contain transition-all duration-300 ${
-            (isPaused && !isBusy && !showAnnotations && !isQueryDrawerOpen) ? 'brightness-75 blur-[2px]' : ''
-          } ${showAnnotations ? 'hidden' : 'block'}`}
-          onPause={handleVideoPause}
-          onPlay={handleVideoPlay}
-        />
-      )}
-
-      {/* Image Element */}
-      {mediaType === 'image' && (
-        <img
-          ref={imgRef}
-          src={mediaSrc}
-          alt="Scene to analyze"
-          className={`w-full max-h-full object-contain transition-all duration-300 ${
-            (!isBusy && !showAnnotations && !isQueryDrawerOpen) ? 'brightness-75 blur-[2px]' : ''
-          } ${showAnnotations ? 'hidden' : 'block'}`}
-        />
-      )}
-
-      {/* Annotated Canvas */}
-      <canvas 
-        ref={canvasRef} 
-        className={`w-full max-h-full object-contain ${showAnnotations ? 'block' : 'hidden'}`} 
-      />
-
-      {/* Close Annotations Button - Moved to BOTTOM to avoid header overlap */}
-      {showAnnotations && (
-        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-50">
-           <button 
-             onClick={onCloseAnnotations}
-             className="bg-black/80 hover:bg-black text-white px-6 py-2 rounded-full border border-teal-400 flex items-center gap-2 shadow-lg shadow-teal-500/20 transition-all"
-           >
-             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-teal-400">
-               <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-             </svg>
-             <span className="font-semibold tracking-wide">Close Annotations</span>
-           </button>
-        </div>
-      )}
 
-      {/* Play/Pause Overlay - Center Screen */}
-      {isPaused && !isBusy && !showAnnotations && !isQueryDrawerOpen && (
-        <div 
-          className="absolute inset-0 z-10 flex items-center justify-center cursor-pointer group"
-          onClick={() => {
-             if (mediaType === 'video' && videoRef.current) {
-                videoRef.current.play();
-             }
-          }}
-        >
-             <div className="w-24 h-24 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center group-hover:scale-110 group-hover:bg-white/20 transition-all border border-white/20 shadow-2xl">
-                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-12 h-12 text-white drop-shadow-lg ml-1">
-                   <path fillRule="evenodd" d="M4.5 5.653c0-.856.917-1.398 1.667-.986l11.54 6.348a1.125 1.125 0 010 1.971l-11.54 6.347a1.125 1.125 0 01-1.667-.985V5.653z" clipRule="evenodd" />
-                 </svg>
-             </div>
-        </div>
-      )}
-
-      {/* Action Buttons - Moved to be just below the center play button */}
-      {isPaused && !isBusy && !showAnnotations && !isQueryDrawerOpen && (
-        <div className="absolute top-1/2 left-0 right-0 mt-20 z-50 flex items-center justify-center gap-6 pointer-events-none">
-            
-            {/* Identify Cast Button */}
-            <button 
-              onClick={handleIdentifyClick}
-              className="pointer-events-auto group bg-gray-900/90 hover:bg-gray-800 text-white px-6 py-4 rounded-2xl border border-white/10 flex items-center gap-3 transition-all hover:scale-105 shadow-xl hover:shadow-teal-500/20"
-            >
-              <div className="p-2 bg-teal-600 rounded-lg group-hover:rotate-12 transition-transform">
-                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
-                   <path fillRule="evenodd" d="M7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
+          {/* Subtitle Track */}
+          {mediaType === 'video' && (
+            <>
+              <input type="file" accept=".srt,.vtt" onChange={handleSubtitleUpload} className="hidden" ref={subtitleInputRef} />
+              <button
+                onClick={() => subtitleInputRef.current?.click()}
+                className={`bg-black/60 hover:bg-black/80 px-3 py-2 rounded-full backdrop-blur-md text-xs font-bold flex items-center gap-1.5 transition-all ${subtitleError ? 'text-red-300' : subtitles ? 'text-blue-300' : 'text-white'}`}
+                title={subtitles ? `${subtitles.label} · ${subtitles.cues.length} lines (click to replace)` : "Attach an .srt or .vtt subtitle file"}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 8.25h9m-9 3H12m-9.75 1.51c0 1.6 1.123 2.994 2.707 3.227 1.129.166 2.27.293 3.423.379.35.026.67.21.865.501L12 21l2.755-4.133a1.14 1.14 0 01.865-.501 48.172 48.172 0 003.423-.379c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
                 </svg>
-              </div>
-              <div className="text-left">
-                 <span className="block text-sm font-bold">Identify Cast</span>
-                 <span className="block text-[10px] text-gray-400">Scan Scene</span>
-              </div>
-            </button>
+                {subtitleError ?? (subtitles ? 'Subtitles on' : 'Add subtitles')}
+              </button>
+            </>
+          )}
 
-            {/* Ask AI Button */}
-            <button 
-              onClick={() => setIsQueryDrawerOpen(true)}
-              className="pointer-events-auto bg-blue-600 hover:bg-blue-500 text-white px-8 py-4 rounded-2xl font-bold text-lg shadow-xl shadow-blue-600/30 hover:shadow-blue-500/50 transition-all hover:-translate-y-1 flex items-center gap-2"
-            >
-               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
-                 <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
-               </svg>
-               Ask AI
-            </button>
+          {/* AI Captions Toggle (for clips without subtitles) */}
+          {mediaType === 'video' && onTranscribe && !subtitles && (
+            <div className="flex items-center bg-black/60 rounded-full backdrop-blur-md">
+              <button
+                onClick={toggleCaptions}
+                className={`px-3 py-2 rounded-full text-xs font-bold flex items-center gap-1.5 transition-colors ${isCaptioning ? 'text-yellow-300' : 'text-white hover:text-yellow-200'}`}
+                title="Transcribe dialogue with AI while the video plays"
+              >
+                <span className={`w-2 h-2 rounded-full ${isCaptioning ? 'bg-yellow-400 animate-pulse' : 'bg-gray-500'}`}></span>
+                AI Captions
+              </button>
+              {(isCaptioning || transcript.length > 0) && (
+                <button
+                  onClick={() => setIsTranscriptOpen(!isTranscriptOpen)}
+                  className={`pr-3 py-2 transition-colors ${isTranscriptOpen ? 'text-yellow-300' : 'text-gray-300 hover:text-white'}`}
+                  title="Show transcript"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          )}
 
-        </div>
-      )}
+          {/* Live Cast Toggle */}
+          {mediaType === 'video' && onTrackCast && (
+            <div className="flex items-center bg-black/60 rounded-full backdrop-blur-md">
+              <button
+                onClick={toggleLiveCast}
+                className={`px-3 py-2 rounded-full text-xs font-bold flex items-center gap-1.5 transition-colors ${isLiveCast ? 'text-teal-300' : 'text-white hover:text-teal-200'}`}
+                title="Tag characters continuously while the video plays"
+              >
+                <span className={`w-2 h-2 rounded-full ${isLiveCast ? 'bg-teal-400 animate-pulse' : 'bg-gray-500'}`}></span>
+                Live Cast
+              </button>
+              {isLiveCast && (
+                <select
+                  value={liveCastIntervalSec}
+                  onChange={(e) => setLiveCastIntervalSec(Number(e.target.value))}
+                  className="bg-transparent text-xs text-gray-300 pr-3 focus:outline-none cursor-pointer"
+                  title="Detection interval"
+                >
+                  {LIVE_CAST_INTERVAL_OPTIONS.map(sec => (
+                    <option key={sec} value={sec} className="bg-gray-900">every {sec}s</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
 
-      {/* Query Drawer (Slide-in Left) */}
-      {isQueryDrawerOpen && (
-        <div 
-          className="absolute top-0 bottom-0 left-0 w-[90%] sm:w-[400px] z-50 bg-gray-900/95 backdrop-blur-xl border-r border-white/10 shadow-2xl flex flex-col slide-in-left"
-          onTouchStart={onTouchStart}
-          onTouchMove={onTouchMove}
-          onTouchEnd={onTouchEnd}
-        >
-          {/* Header */}
-          <div className="flex items-center justify-between p-5 border-b border-white/10 bg-gray-900/50">
-            <h2 className="text-lg font-bold text-white">Ask Scene Detective</h2>
-            <button 
-              onClick={() => setIsQueryDrawerOpen(false)}
-              className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
-            >
+          {/* Fullscreen Toggle */}
+          <button 
+            onClick={toggleFullscreen}
+            className="bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all"
+            title="Toggle Fullscreen"
+          >
+            {isFullscreen ? (
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 9V4.5M9 9H4.5M9 9L3.75 3.75M9 15v4.5M9 15H4.5M9 15l-5.25 5.25M15 9h4.5M15 9V4.5M15 9l5.25-5.25M15 15h4.5M15 15v4.5m0-4.5l5.25 5.25" />
+              </svg>
+            ) : (
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />
               </svg>
+            )}
+          </button>
+
+          {/* Change Media Button */}
+          <button 
+            onClick={handleReset}
+            className="bg-black/60 hover:bg-black/80 text-white p-2 rounded-full backdrop-blur-md transition-all"
+            title="Upload different file"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      
+        {/* Scanner Overlay - WOW Effect (No Grid) */}
+        {isBusy && (
+          <div className="absolute inset-0 z-30 pointer-events-none overflow-hidden">
+             {/* The moving line */}
+             <div className="absolute left-0 right-0 h-0.5 bg-blue-400 shadow-[0_0_20px_rgba(59,130,246,0.8)] scanner-line"></div>
+             {/* Subtle tint */}
+             <div className="absolute inset-0 bg-blue-900/10"></div>
+          </div>
+        )}
+
+        {/* Cancel (the question drawer has its own) */}
+        {isAnalyzing && !isQueryDrawerOpen && (
+          <button
+            onClick={handleCancelAnalysis}
+            className="absolute bottom-10 left-1/2 -translate-x-1/2 z-50 bg-black/80 hover:bg-black text-gray-200 hover:text-white px-5 py-2 rounded-full border border-white/20 text-sm flex items-center gap-2 shadow-lg transition-all"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+            Cancel
+          </button>
+        )}
+      
+        {/* Video Element */}
+        {mediaType === 'video' && (
+          <video
+            ref={videoRef}
+            src={mediaSrc}
+            crossOrigin="anonymous" 
+            controls={!showAnnotations && !isFrameFocused}
+            playsInline
+            className={`block w-full max-h-full object-contain transition-all duration-300 ${
+              (isPaused && !isBusy && !showAnnotations && !isFrameFocused) ? 'brightness-75 blur-[2px]' : ''
+            }`}
+            onPause={handleVideoPause}
+            onPlay={handleVideoPlay}
+            onSeeked={handleVideoSeeked}
+            onTimeUpdate={sceneIndex || isCaptioning || transcript.length > 0 ? (e) => setPlaybackTime(e.currentTarget.currentTime) : undefined}
+          >
+            {subtitles && (
+              <track key={subtitles.url} kind="subtitles" src={subtitles.url} label={subtitles.label} srcLang="und" default />
+            )}
+          </video>
+        )}
+
+        {/* AI Captions */}
+        {captionCue && !showAnnotations && !isQueryDrawerOpen && (
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-10 max-w-[80%] pointer-events-none">
+            <p className="bg-black/75 text-white text-base sm:text-lg text-center leading-snug px-3 py-1.5 rounded-lg whitespace-pre-line">
+              {captionCue.text}
+            </p>
+          </div>
+        )}
+
+        {/* Transcript */}
+        {isTranscriptOpen && !subtitles && (
+          <TranscriptPanel
+            title={mediaTitle}
+            cues={transcript}
+            currentTime={playbackTime}
+            isTranscribing={isCaptioning}
+            onSeek={seekVideo}
+            onClose={() => setIsTranscriptOpen(false)}
+          />
+        )}
+
+        {/* Live Cast Tags (over the playing video) */}
+        {mediaType === 'video' && isLiveCast && !showAnnotations && (
+          <LiveCastOverlay videoRef={videoRef} boxes={liveTags} transitionMs={LIVE_CAST_RENDER_MS} />
+        )}
+
+        {/* Image Element */}
+        {mediaType === 'image' && (
+          <img
+            ref={imgRef}
+            src={mediaSrc}
+            alt="Scene to analyze"
+            className={`block w-full max-h-full object-contain transition-all duration-300 ${
+              (!isBusy && !showAnnotations && !isFrameFocused) ? 'brightness-75 blur-[2px]' : ''
+            }`}
+          />
+        )}
+
+        {/* Region of interest */}
+        {!showAnnotations && (isSelectingRegion || outlinedRegion) && (
+          <RegionSelector
+            mediaRef={mediaType === 'video' ? videoRef : imgRef}
+            region={outlinedRegion}
+            onSelect={isSelectingRegion ? (selected) => { setRegion(selected); setIsSelectingRegion(false); } : undefined}
+          />
+        )}
+        {isSelectingRegion && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 bg-black/80 backdrop-blur-md border border-yellow-400/40 rounded-full pl-4 pr-1.5 py-1.5 shadow-lg">
+            <span className="text-xs sm:text-sm text-yellow-100 whitespace-nowrap">Drag a box around what you mean, or tap it</span>
+            <button
+              onClick={() => setIsSelectingRegion(false)}
+              className="text-xs text-gray-300 hover:text-white bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full transition-colors"
+            >
+              Cancel
             </button>
           </div>
-          
-          {/* Content */}
-          <div className="p-6 flex-1 flex flex-col">
-            <label className="text-xs text-blue-400 uppercase font-bold tracking-widest mb-3 block">
-               Question
-            </label>
-            <form onSubmit={handleSubmit} className="flex flex-col gap-4 flex-1">
-              <div className="relative">
-                <textarea 
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="E.g. Where can I buy this jacket? or What song is playing?"
-                  className="w-full h-32 bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all resize-none text-base"
-                />
-                
-                {/* Mic Button */}
-                <button
-                   type="button"
-                   onClick={startListening}
-                   className={`absolute bottom-3 right-3 p-2 rounded-lg transition-colors ${isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-white/10 text-gray-400 hover:text-white'}`}
-                >
-                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+        )}
+
+        {/* Cast tags and product hotspots over the paused frame */}
+        {showAnnotations && (
+          <AnnotationOverlay
+            mediaRef={mediaType === 'video' ? videoRef : imgRef}
+            annotations={annotations ?? []}
+            products={products ?? []}
+            disabled={isBusy}
+            onSelectCast={onSelectCast}
+            onSelectProduct={onSelectProduct}
+          />
+        )}
+
+        {/* Scratch canvas for snapshots and crops; never shown */}
+        <canvas ref={canvasRef} className="hidden" />
+
+        {showAnnotations && !isBusy && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
+            {products && products.length > 0 ? (
+              <p className="bg-black/70 text-pink-100 text-xs font-medium px-3 py-1.5 rounded-full border border-pink-400/30 backdrop-blur-md">
+                Tap an item to find where to buy it
+              </p>
+            ) : (
+              <p className="bg-black/70 text-blue-100 text-xs font-medium px-3 py-1.5 rounded-full border border-blue-400/30 backdrop-blur-md">
+                Tap a name to open the character's profile
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Close Annotations Button - Moved to BOTTOM to avoid header overlap */}
+        {showAnnotations && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3">
+             <button
+               onClick={() => (products ? handleShopClick(true) : handleIdentifyClick(true))}
+               disabled={isBusy}
+               className="bg-black/80 hover:bg-black text-gray-300 hover:text-white px-4 py-2 rounded-full border border-white/20 text-sm transition-all disabled:opacity-50"
+               title="Scan again without using cached results"
+             >
+               Fresh scan
+             </button>
+             <button 
+               onClick={onCloseAnnotations}
+               className="bg-black/80 hover:bg-black text-white px-6 py-2 rounded-full border border-teal-400 flex items-center gap-2 shadow-lg shadow-teal-500/20 transition-all"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-teal-400">
+                 <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+               </svg>
+               <span className="font-semibold tracking-wide">Close Annotations</span>
+             </button>
+          </div>
+        )}
+
+        {/* Play/Pause Overlay - Center Screen */}
+        {isPaused && !isBusy && !showAnnotations && !isFrameFocused && (
+          <div 
+            className="absolute inset-0 z-10 flex items-center justify-center cursor-pointer group"
+            onClick={() => {
+               if (mediaType === 'video' && videoRef.current) {
+                  videoRef.current.play();
+               }
+            }}
+          >
+               <div className="w-24 h-24 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center group-hover:scale-110 group-hover:bg-white/20 transition-all border border-white/20 shadow-2xl">
+                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-12 h-12 text-white drop-shadow-lg ml-1">
+                     <path fillRule="evenodd" d="M4.5 5.653c0-.856.917-1.398 1.667-.986l11.54 6.348a1.125 1.125 0 010 1.971l-11.54 6.347a1.125 1.125 0 01-1.667-.985V5.653z" clipRule="evenodd" />
                    </svg>
-                </button>
-              </div>
+               </div>
+          </div>
+        )}
 
-              <div className="flex-1"></div>
+        {/* Action Buttons - Moved to be just below the center play button */}
+        {isPaused && !isBusy && !showAnnotations && !isFrameFocused && (
+          <div className="absolute top-1/2 left-0 right-0 mt-20 z-50 flex flex-wrap items-center justify-center gap-4 sm:gap-6 px-4 pointer-events-none">
+            
+              {/* Identify Cast Button */}
+              <button 
+                onClick={() => handleIdentifyClick()}
+                className="pointer-events-auto group bg-gray-900/90 hover:bg-gray-800 text-white px-6 py-4 rounded-2xl border border-white/10 flex items-center gap-3 transition-all hover:scale-105 shadow-xl hover:shadow-teal-500/20"
+              >
+                <div className="p-2 bg-teal-600 rounded-lg group-hover:rotate-12 transition-transform">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                     <path fillRule="evenodd" d="M7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
+                  </svg>
+                </div>
+                <div className="text-left">
+                   <span className="block text-sm font-bold">Identify Cast</span>
+                   <span className="block text-[10px] text-gray-400">Scan Scene</span>
+                </div>
+              </button>
 
+              {/* Shop the Scene Button */}
               <button 
-                type="submit"
-                disabled={!query.trim()}
-                className="w-full py-4 bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-bold rounded-xl shadow-lg shadow-blue-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 active:scale-[0.98]"
+                onClick={() => handleShopClick()}
+                className="pointer-events-auto group bg-gray-900/90 hover:bg-gray-800 text-white px-6 py-4 rounded-2xl border border-white/10 flex items-center gap-3 transition-all hover:scale-105 shadow-xl hover:shadow-pink-500/20"
               >
-                 <span>Analyze Scene</span>
-                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                   <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+                <div className="p-2 bg-pink-600 rounded-lg group-hover:rotate-12 transition-transform">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                    <path fillRule="evenodd" d="M7.5 6v.75H5.513c-.96 0-1.764.724-1.865 1.679l-1.263 12A1.875 1.875 0 004.25 22.5h15.5a1.875 1.875 0 001.865-2.071l-1.263-12a1.875 1.875 0 00-1.865-1.679H16.5V6a4.5 4.5 0 10-9 0zM12 3a3 3 0 00-3 3v.75h6V6a3 3 0 00-3-3zm-3 8.25a3 3 0 106 0v-.75a.75.75 0 011.5 0v.75a4.5 4.5 0 11-9 0v-.75a.75.75 0 011.5 0v.75z" clipRule="evenodd" />
+                  </svg>
+                </div>
+                <div className="text-left">
+                   <span className="block text-sm font-bold">Shop the Scene</span>
+                   <span className="block text-[10px] text-gray-400">Find Products</span>
+                </div>
+              </button>
+
+              {/* Ask AI Button */}
+              <button 
+                onClick={() => setIsQueryDrawerOpen(true)}
+                className="pointer-events-auto bg-blue-600 hover:bg-blue-500 text-white px-8 py-4 rounded-2xl font-bold text-lg shadow-xl shadow-blue-600/30 hover:shadow-blue-500/50 transition-all hover:-translate-y-1 flex items-center gap-2"
+              >
+                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                   <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
                  </svg>
+                 Ask AI
               </button>
-            </form>
+
           </div>
+        )}
+
+        {/* Query Drawer (Slide-in Left) */}
+        {isQueryDrawerOpen && !isSelectingRegion && (
+          <div 
+            className="absolute top-0 bottom-0 left-0 w-[90%] sm:w-[400px] z-50 bg-gray-900/95 backdrop-blur-xl border-r border-white/10 shadow-2xl flex flex-col slide-in-left"
+            onTouchStart={onTouchStart}
+            onTouchMove={onTouchMove}
+            onTouchEnd={onTouchEnd}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-5 border-b border-white/10 bg-gray-900/50">
+              <h2 className="text-lg font-bold text-white">Ask Scene Detective</h2>
+              <button 
+                onClick={() => setIsQueryDrawerOpen(false)}
+                className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
           
-           {/* Hint */}
-          <div className="p-4 bg-gray-900/50 text-center border-t border-white/5">
-             <p className="text-xs text-gray-500">Swipe left to close</p>
+            {/* Content */}
+            <div className="p-6 flex-1 flex flex-col">
+              <label className="text-xs text-blue-400 uppercase font-bold tracking-widest mb-3 block">
+                 Question
+              </label>
+              <form onSubmit={handleSubmit} className="flex flex-col gap-4 flex-1">
+                <div className="relative">
+                  <textarea 
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="E.g. Where can I buy this jacket? or What song is playing?"
+                    className="w-full h-32 bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all resize-none text-base"
+                  />
+                
+                  {/* Mic Button */}
+                  <button
+                     type="button"
+                     onClick={startListening}
+                     className={`absolute bottom-3 right-3 p-2 rounded-lg transition-colors ${isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-white/10 text-gray-400 hover:text-white'}`}
+                  >
+                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                     </svg>
+                  </button>
+                </div>
+
+                {/* Region of interest */}
+                {region ? (
+                  <div className="flex items-center gap-2 text-xs bg-yellow-400/10 border border-yellow-400/30 rounded-lg px-3 py-2">
+                    <span className="w-2.5 h-2.5 rounded-sm border-2 border-yellow-400 flex-shrink-0" />
+                    <span className="text-yellow-100 flex-1">Asking about the outlined area</span>
+                    <button type="button" onClick={() => setIsSelectingRegion(true)} className="text-gray-300 hover:text-white transition-colors">
+                      Redraw
+                    </button>
+                    <button type="button" onClick={() => setRegion(null)} className="text-gray-300 hover:text-white transition-colors">
+                      Clear
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setIsSelectingRegion(true)}
+                    className="flex items-center gap-2 text-xs text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-2 transition-colors"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 3.75H6A2.25 2.25 0 003.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0120.25 6v1.5m0 9V18A2.25 2.25 0 0118 20.25h-1.5m-9 0H6A2.25 2.25 0 013.75 18v-1.5M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                    Point at something on the frame
+                  </button>
+                )}
+
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={skipCache}
+                    onChange={(e) => setSkipCache(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Fresh answer (skip cached results)
+                </label>
+
+                <div className="flex-1"></div>
+
+                {isBusy ? (
+                  <button
+                    type="button"
+                    onClick={handleCancelAnalysis}
+                    className="w-full py-4 bg-white/10 hover:bg-white/15 border border-white/20 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2 active:scale-[0.98]"
+                  >
+                    <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    <span>Cancel</span>
+                  </button>
+                ) : (
+                  <button 
+                    type="submit"
+                    disabled={!query.trim()}
+                    className="w-full py-4 bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-bold rounded-xl shadow-lg shadow-blue-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 active:scale-[0.98]"
+                  >
+                     <span>Analyze Scene</span>
+                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                       <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+                     </svg>
+                  </button>
+                )}
+              </form>
+            </div>
+          
+             {/* Hint */}
+            <div className="p-4 bg-gray-900/50 text-center border-t border-white/5">
+               <p className="text-xs text-gray-500">Swipe left to close</p>
+            </div>
           </div>
-        </div>
+        )}
+      </div>
+
+      {/* Chapter Timeline (from "Scan video") */}
+      {mediaType === 'video' && sceneIndex && sceneIndex.chapters.length > 0 && (
+        <ChapterTimeline
+          index={sceneIndex}
+          currentTime={playbackTime}
+          onSeek={seekVideo}
+        />
       )}
     </div>
   );
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ConversationTurn } from '../types';
+import { getCitedSources } from '../services/citations';
+import { parseCastProfile } from '../services/castProfile';
+import { MarkdownText } from './MarkdownText';
+import { RecommendationTile } from './ResultCard';
+
+interface CastProfileCardProps {
+  name: string;
+  // The grounded answer so far; null until the first token arrives
+  turn: ConversationTurn | null;
+  // True from the request until the answer is complete
+  isStreaming: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+// Profile of a tagged character: actor, their part in the story so far, and filmography links
+export const CastProfileCard: React.FC<CastProfileCardProps> = ({ name, turn, isStreaming, error, onRetry, onClose }) => {
+  const profile = turn ? parseCastProfile(turn.answer) : null;
+  const sources = getCitedSources(turn?.groundingMetadata);
+
+  return (
+    <div className="absolute top-0 bottom-0 right-0 z-50 w-[90%] sm:w-[380px] flex flex-col bg-gray-900/95 backdrop-blur-xl border-l border-white/10 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3 p-5 border-b border-white/10 bg-gray-900/50 flex-shrink-0">
+        <div className="min-w-0">
+          <p className="text-[10px] font-mono uppercase tracking-widest text-teal-400 mb-1">Character</p>
+          <h2 className="text-xl font-bold text-white truncate">{name}</h2>
+          {profile?.actor ? (
+            <p className="text-sm text-gray-300 mt-1">
+              played by <span className="text-white font-medium">{profile.actor}</span>
+            </p>
+          ) : isStreaming && (
+            <div className="h-4 w-32 mt-2 bg-white/10 rounded animate-pulse" />
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors flex-shrink-0"
+          title="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+        {error ? (
+          <div className="text-center mt-8">
+            <p className="text-sm text-red-300 mb-4">{error}</p>
+            <button
+              onClick={onRetry}
+              className="px-4 py-2 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        ) : (
+          <>
+            <h3 className="text-xs font-bold text-blue-300 uppercase tracking-widest mb-3">Role so far</h3>
+            {profile?.role ? (
+              <MarkdownText text={profile.role} isStreaming={isStreaming} />
+            ) : !isStreaming ? (
+              <p className="text-sm text-gray-500">No details found for this character.</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="h-4 bg-white/10 rounded animate-pulse" />
+                <div className="h-4 w-5/6 bg-white/10 rounded animate-pulse" />
+                <div className="h-4 w-2/3 bg-white/10 rounded animate-pulse" />
+              </div>
+            )}
+
+            {sources.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-xs font-bold text-blue-300 uppercase tracking-widest mb-4">Filmography & sources</h3>
+                <div className="grid grid-cols-2 gap-3">
+                  {sources.map(source => (
+                    <RecommendationTile key={source.chunkIndex} source={source} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef } from 'react';
+import { SceneIndex } from '../types';
+import { formatTimestamp } from '../services/timeFormat';
+
+interface ChapterTimelineProps {
+  index: SceneIndex;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// Scene chapters from a "Scan video" pass, shown under the player for jumping between scenes
+export const ChapterTimeline: React.FC<ChapterTimelineProps> = ({ index, currentTime, onSeek }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const activeIndex = index.chapters.findIndex(c => currentTime >= c.start && currentTime < c.end);
+
+  // Keep the current chapter visible as playback moves through scenes
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div className="flex-shrink-0 bg-gray-950 border-t border-white/10 px-4 pt-3 pb-4">
+      <h3 className="text-xs font-bold text-blue-300 uppercase tracking-widest mb-2">
+        Chapters <span className="text-gray-500 font-normal normal-case tracking-normal">· {index.chapters.length} scenes</span>
+      </h3>
+
+      {/* Proportional scene bar */}
+      <div className="flex h-1.5 w-full rounded-full overflow-hidden bg-gray-800 mb-3">
+        {index.chapters.map((chapter, i) => (
+          <button
+            key={chapter.start}
+            onClick={() => onSeek(chapter.start)}
+            style={{ width: `${((chapter.end - chapter.start) / index.duration) * 100}%` }}
+            className={`h-full border-r border-gray-950 last:border-r-0 transition-colors ${i === activeIndex ? 'bg-blue-500' : 'bg-gray-600 hover:bg-gray-400'}`}
+            title={`${formatTimestamp(chapter.start)} · ${chapter.summary}`}
+          />
+        ))}
+      </div>
+
+      {/* Chapter cards */}
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {index.chapters.map((chapter, i) => (
+          <button
+            key={chapter.start}
+            ref={i === activeIndex ? activeRef : undefined}
+            onClick={() => onSeek(chapter.start)}
+            className={`flex-shrink-0 w-44 text-left rounded-xl overflow-hidden border transition-all ${
+              i === activeIndex ? 'border-blue-500 bg-gray-800' : 'border-white/10 bg-gray-900 hover:border-white/30'
+            }`}
+          >
+            <div className="relative h-20 bg-black">
+              <img src={chapter.thumbnail} alt="" className="w-full h-full object-cover" />
+              <span className="absolute bottom-1 left-1 text-[10px] font-mono bg-black/70 text-white px-1.5 py-0.5 rounded">
+                {formatTimestamp(chapter.start)}
+              </span>
+            </div>
+            <div className="p-2">
+              <p className="text-xs text-gray-200 leading-snug line-clamp-2">{chapter.summary || 'Untitled scene'}</p>
+              {chapter.cast.length > 0 && (
+                <p className="text-[10px] text-teal-300 mt-1 truncate">{chapter.cast.join(', ')}</p>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { HistoryEntry, ViewingSession } from '../types';
+import { clearHistory, deleteHistoryEntry, listHistory } from '../services/historyStore';
+import { downloadSession, ExportFormat } from '../services/sessionExport';
+import { formatTimestamp } from '../services/timeFormat';
+
+interface HistoryPanelProps {
+  mediaTitle: string;
+  // Bumped by the parent whenever a new entry is saved, to trigger a reload
+  refreshKey: number;
+  // The current viewing session, offered for export
+  session: ViewingSession | null;
+  onSelect: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'Report' },
+];
+
+// Past questions for the current title, newest first; selecting one jumps back to that moment
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ mediaTitle, refreshKey, session, onSelect, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [loadError, setLoadError] = useState(false);
+  // A delete or clear that IndexedDB refused (quota, private mode, blocked upgrade); the list is left as it was
+  const [writeError, setWriteError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setEntries(await listHistory(mediaTitle));
+      setLoadError(false);
+    } catch (error) {
+      console.warn("Failed to load history", error);
+      setLoadError(true);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [mediaTitle, refreshKey]);
+
+  const handleDelete = async (e: React.MouseEvent, id: number) => {
+    e.stopPropagation();
+    try {
+      await deleteHistoryEntry(id);
+      setWriteError(null);
+    } catch (error) {
+      console.warn("Failed to delete history entry", error);
+      setWriteError("Couldn't delete that question. Try again, or reload the page.");
+    }
+    reload();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Delete all saved questions for "${mediaTitle}"?`)) return;
+    try {
+      await clearHistory(mediaTitle);
+      setWriteError(null);
+    } catch (error) {
+      console.warn("Failed to clear history", error);
+      setWriteError("Couldn't clear the history. Try again, or reload the page.");
+    }
+    reload();
+  };
+
+  const hasSessionContent = !!session && (session.questions.length > 0 || session.castTags.length > 0);
+
+  const needle = search.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter(e => e.query.toLowerCase().includes(needle) || e.answer.toLowerCase().includes(needle))
+    : entries;
+
+  return (
+    <div className="absolute top-0 bottom-0 right-0 z-50 w-[90%] sm:w-[380px] flex flex-col bg-gray-900/95 backdrop-blur-xl border-l border-white/10 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-white/10 bg-gray-900/50 flex-shrink-0">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white">History</h2>
+          <p className="text-xs text-gray-500 truncate">{mediaTitle}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="p-4 border-b border-white/5 flex-shrink-0">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions and answers..."
+          className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-sm text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all"
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {loadError && (
+          <p className="text-sm text-red-300">History is unavailable in this browser.</p>
+        )}
+        {!loadError && writeError && (
+          <p className="text-sm text-red-300">{writeError}</p>
+        )}
+        {!loadError && visible.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-8">
+            {needle ? 'No matching questions.' : 'Questions you ask about this title will appear here.'}
+          </p>
+        )}
+        {visible.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => onSelect(entry)}
+            className="group flex gap-3 p-2 rounded-xl bg-gray-800/50 border border-white/10 hover:border-blue-500/50 hover:bg-gray-800 cursor-pointer transition-all"
+          >
+            <div className="relative w-24 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-black">
+              <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+              <span className="absolute bottom-0.5 left-0.5 text-[10px] font-mono bg-black/70 text-white px-1 rounded">
+                {formatTimestamp(entry.timestamp)}
+              </span>
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-100 line-clamp-1">{entry.query}</p>
+              <p className="text-xs text-gray-400 line-clamp-2 mt-0.5">{entry.answer.replace(/\*\*/g, '')}</p>
+            </div>
+            <button
+              onClick={(e) => handleDelete(e, entry.id!)}
+              className="self-start p-1 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+              title="Delete"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Footer */}
+      {hasSessionContent && (
+        <div className="p-4 border-t border-white/5 flex-shrink-0">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-blue-300 mb-2">Export this session</p>
+          <div className="grid grid-cols-3 gap-2">
+            {EXPORT_OPTIONS.map(option => (
+              <button
+                key={option.format}
+                onClick={() => downloadSession(session!, option.format)}
+                className="py-2 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {entries.length > 0 && (
+        <div className="p-4 border-t border-white/5 flex-shrink-0">
+          <button
+            onClick={handleClear}
+            className="w-full py-2 text-xs font-bold uppercase tracking-wider text-red-300/80 hover:text-red-300 hover:bg-red-900/20 rounded-lg transition-colors"
+          >
+            Clear history for this title
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { BoundingBox } from '../types';
+import { useDisplayedMediaRect } from './mediaRect';
+
+interface LiveCastOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  boxes: BoundingBox[];
+  // Tags glide to their next position over this duration instead of jumping
+  transitionMs: number;
+}
+
+// Name tags rendered over the playing video while live cast tracking is on
+export const LiveCastOverlay: React.FC<LiveCastOverlayProps> = ({ videoRef, boxes, transitionMs }) => {
+  const rect = useDisplayedMediaRect(videoRef);
+
+  if (!rect || boxes.length === 0) return null;
+
+  return (
+    <div
+      className="absolute z-10 pointer-events-none"
+      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+    >
+      {boxes.map(box => (
+        <div
+          key={box.name}
+          className="absolute flex flex-col items-center -translate-x-1/2 -translate-y-full"
+          style={{
+            left: `${(box.xmin + box.xmax) / 20}%`,
+            top: `${Math.max(box.ymin / 10, 6)}%`,
+            transition: `left ${transitionMs}ms linear, top ${transitionMs}ms linear`,
+          }}
+        >
+          <span className="bg-gray-900/90 border border-blue-500 text-white text-xs sm:text-sm font-bold px-3 py-1 rounded-lg shadow-lg shadow-black/60 whitespace-nowrap">
+            {box.name}
+          </span>
+          <span className="w-0 h-0 border-x-[6px] border-x-transparent border-t-[6px] border-t-blue-500" />
+        </div>
+      ))}
+    </div>
+  );
+};
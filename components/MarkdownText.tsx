@@ -0,0 +1,155 @@
+import React from 'react';
+import { InlineNode, ListItem, MarkdownBlock, parseMarkdown } from '../services/markdown';
+
+interface MarkdownTextProps {
+  text: string;
+  // Shows a caret and hides half-received markup while the answer is still arriving
+  isStreaming?: boolean;
+  // Called with a footnote number when a citation marker is clicked
+  onCitation?: (footnote: number) => void;
+}
+
+type CitationHandler = MarkdownTextProps['onCitation'];
+
+const ALIGN_CLASS = { left: 'text-left', center: 'text-center', right: 'text-right' } as const;
+
+const HEADING_CLASS = [
+  'text-2xl font-bold text-white',
+  'text-xl font-bold text-white',
+  'text-lg font-semibold text-white',
+  'text-base font-semibold text-blue-100',
+  'text-sm font-semibold text-blue-100 uppercase tracking-wide',
+  'text-sm font-semibold text-gray-300 uppercase tracking-wide',
+];
+
+const renderInline = (nodes: InlineNode[], onCitation: CitationHandler): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={i} className="text-blue-100 font-bold">{renderInline(node.children, onCitation)}</strong>;
+      case 'em':
+        return <em key={i} className="italic text-gray-100">{renderInline(node.children, onCitation)}</em>;
+      case 'del':
+        return <del key={i} className="text-gray-400">{renderInline(node.children, onCitation)}</del>;
+      case 'code':
+        return <code key={i} className="font-mono text-[0.85em] text-blue-200 bg-white/10 px-1.5 py-0.5 rounded">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline decoration-blue-400/40 hover:text-blue-300 hover:decoration-blue-300 break-words">
+            {renderInline(node.children, onCitation)}
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+      case 'citation':
+        return (
+          <sup key={i} className="ml-0.5 whitespace-nowrap">
+            {node.sources.map(n => (
+              <button
+                key={n}
+                type="button"
+                onClick={() => onCitation?.(n)}
+                className="mx-px px-1 rounded text-[10px] font-mono font-bold text-blue-300 bg-blue-500/15 hover:bg-blue-500/40 hover:text-white transition-colors align-super"
+                title={`Source ${n}`}
+              >
+                {n}
+              </button>
+            ))}
+          </sup>
+        );
+    }
+  });
+
+const renderListItem = (item: ListItem, marker: React.ReactNode, key: number, onCitation: CitationHandler) => (
+  <li key={key} className="flex gap-2">
+    {marker}
+    <div className="min-w-0 flex-1 space-y-2">
+      <p className="text-gray-200 leading-relaxed">{renderInline(item.content, onCitation)}</p>
+      {item.children.map((child, i) => renderBlock(child, i, onCitation))}
+    </div>
+  </li>
+);
+
+const renderBlock = (block: MarkdownBlock, key: number, onCitation: CitationHandler): React.ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+      return <Tag key={key} className={`${HEADING_CLASS[block.level - 1]} leading-snug`}>{renderInline(block.children, onCitation)}</Tag>;
+    }
+    case 'paragraph':
+      return <p key={key} className="text-gray-200 leading-relaxed text-lg font-light tracking-wide">{renderInline(block.children, onCitation)}</p>;
+    case 'list':
+      return block.ordered ? (
+        <ol key={key} className="space-y-2 ml-2">
+          {block.items.map((item, i) =>
+            renderListItem(item, <span className="text-blue-400 font-mono text-sm mt-0.5 min-w-[1.25rem] text-right">{block.start + i}.</span>, i, onCitation)
+          )}
+        </ol>
+      ) : (
+        <ul key={key} className="space-y-2 ml-2">
+          {block.items.map((item, i) => renderListItem(item, <span className="text-blue-400 mt-0.5">•</span>, i, onCitation))}
+        </ul>
+      );
+    case 'code':
+      return (
+        <pre key={key} className="bg-black/40 border border-white/10 rounded-xl p-3 overflow-x-auto text-sm">
+          <code className="font-mono text-blue-100">{block.text}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto rounded-xl border border-white/10">
+          <table className="w-full text-sm text-gray-200">
+            <thead className="bg-white/5 text-blue-100">
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`px-3 py-2 font-semibold border-b border-white/10 ${ALIGN_CLASS[block.align[c] ?? 'left']}`}>
+                    {renderInline(cell, onCitation)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-b border-white/5 last:border-b-0">
+                  {row.map((cell, c) => (
+                    <td key={c} className={`px-3 py-2 align-top ${ALIGN_CLASS[block.align[c] ?? 'left']}`}>{renderInline(cell, onCitation)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'quote':
+      return (
+        <blockquote key={key} className="border-l-2 border-blue-500/50 pl-4 space-y-2 text-gray-300 italic">
+          {block.children.map((child, i) => renderBlock(child, i, onCitation))}
+        </blockquote>
+      );
+    case 'rule':
+      return <hr key={key} className="border-white/10" />;
+  }
+};
+
+// While streaming, hide a dangling "**" so half-received bold doesn't flash as raw asterisks
+const hideDanglingBold = (text: string) =>
+  (text.match(/\*\*/g) || []).length % 2 === 1
+    ? text.slice(0, text.lastIndexOf('**')) + text.slice(text.lastIndexOf('**') + 2)
+    : text;
+
+// Markdown answer rendered as React elements; no HTML from the model ever reaches the DOM
+export const MarkdownText: React.FC<MarkdownTextProps> = ({ text, isStreaming, onCitation }) => {
+  const blocks = parseMarkdown(isStreaming ? hideDanglingBold(text) : text);
+
+  return (
+    <div className="space-y-4">
+      {blocks.map((block, i) => renderBlock(block, i, onCitation))}
+      {isStreaming && (
+        <span className="inline-block w-2 h-5 bg-blue-400/80 animate-pulse align-middle" />
+      )}
+    </div>
+  );
+};
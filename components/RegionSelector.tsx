@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { FrameRegion } from '../types';
+import { useDisplayedMediaRect } from './mediaRect';
+
+interface RegionSelectorProps {
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLImageElement | null>;
+  region: FrameRegion | null;
+  // Called with the finished selection; without it the region is only outlined
+  onSelect?: (region: FrameRegion) => void;
+}
+
+// A tap (or a drag smaller than this, 0-1000 scale) selects a default-sized box around the point
+const MIN_DRAG_SIZE = 20;
+const TAP_REGION_SIZE = 200;
+
+const clamp = (value: number) => Math.max(0, Math.min(1000, value));
+
+const normalizeRegion = (a: { x: number; y: number }, b: { x: number; y: number }): FrameRegion => ({
+  xmin: Math.round(Math.min(a.x, b.x)),
+  ymin: Math.round(Math.min(a.y, b.y)),
+  xmax: Math.round(Math.max(a.x, b.x)),
+  ymax: Math.round(Math.max(a.y, b.y)),
+});
+
+const regionAround = ({ x, y }: { x: number; y: number }): FrameRegion => {
+  const half = TAP_REGION_SIZE / 2;
+  const xmin = clamp(Math.min(x - half, 1000 - TAP_REGION_SIZE));
+  const ymin = clamp(Math.min(y - half, 1000 - TAP_REGION_SIZE));
+  return { xmin: Math.round(xmin), ymin: Math.round(ymin), xmax: Math.round(xmin + TAP_REGION_SIZE), ymax: Math.round(ymin + TAP_REGION_SIZE) };
+};
+
+// Drag a rectangle (or tap) on the paused frame to point at one specific thing
+export const RegionSelector: React.FC<RegionSelectorProps> = ({ mediaRef, region, onSelect }) => {
+  const rect = useDisplayedMediaRect(mediaRef);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<FrameRegion | null>(null);
+
+  if (!rect) return null;
+
+  const toFramePoint = (e: React.PointerEvent) => {
+    const bounds = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - bounds.left) / bounds.width) * 1000),
+      y: clamp(((e.clientY - bounds.top) / bounds.height) * 1000),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = toFramePoint(e);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStartRef.current) setDraft(normalizeRegion(dragStartRef.current, toFramePoint(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    dragStartRef.current = null;
+    setDraft(null);
+
+    const end = toFramePoint(e);
+    const dragged = normalizeRegion(start, end);
+    const isTap = dragged.xmax - dragged.xmin < MIN_DRAG_SIZE && dragged.ymax - dragged.ymin < MIN_DRAG_SIZE;
+    onSelect?.(isTap ? regionAround(end) : dragged);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={surfaceRef}
+      className={`absolute z-20 overflow-hidden ${onSelect ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      onPointerDown={onSelect ? handlePointerDown : undefined}
+      onPointerMove={onSelect ? handlePointerMove : undefined}
+      onPointerUp={onSelect ? handlePointerUp : undefined}
+      onPointerCancel={() => { dragStartRef.current = null; setDraft(null); }}
+    >
+      {shown && (
+        <div
+          className="absolute border-2 border-yellow-400 rounded-md shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+          style={{
+            left: `${shown.xmin / 10}%`,
+            top: `${shown.ymin / 10}%`,
+            width: `${(shown.xmax - shown.xmin) / 10}%`,
+            height: `${(shown.ymax - shown.ymin) / 10}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
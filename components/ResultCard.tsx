@@ -1,61 +1,17 @@
 
-import React, { useState, useEffect } from 'react';
-import { AnalysisResult } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AnalysisResult, ConversationTurn } from '../types';
+import { getCitedSources, insertCitationMarkers } from '../services/citations';
+import { MarkdownText } from './MarkdownText';
 
 interface ResultCardProps {
   result: AnalysisResult;
+  pendingTurn?: ConversationTurn | null;
+  followUpError?: string | null;
+  onFollowUp: (query: string) => void;
   onClose: () => void;
 }
 
-// Simple Markdown Renderer component
-const FormattedText: React.FC<{ text: string }> = ({ text }) => {
-  // Split by newlines to handle paragraphs
-  const paragraphs = text.split('\n');
-
-  return (
-    <div className="space-y-4">
-      {paragraphs.map((para, i) => {
-        if (!para.trim()) return null;
-
-        // Basic list handling
-        if (para.trim().startsWith('- ') || para.trim().startsWith('* ')) {
-             return (
-                 <div key={i} className="flex gap-2 ml-2">
-                     <span className="text-blue-400 mt-1.5">•</span>
-                     <p 
-                        className="text-gray-200 leading-relaxed"
-                        dangerouslySetInnerHTML={{ __html: parseBold(para.replace(/^[-*]\s/, '')) }} 
-                     />
-                 </div>
-             )
-        }
-
-        return (
-          <p 
-            key={i} 
-            className="text-gray-200 leading-relaxed text-lg font-light tracking-wide"
-            dangerouslySetInnerHTML={{ __html: parseBold(para) }} 
-          />
-        );
-      })}
-    </div>
-  );
-};
-
-// Helper to convert **text** to <strong>text</strong>
-const parseBold = (text: string) => {
-  // Escape HTML characters first to prevent XSS
-  let safeText = text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-
-  // Replace **bold** with strong tags
-  return safeText.replace(/\*\*(.*?)\*\*/g, '<strong class="text-blue-100 font-bold">$1</strong>');
-};
-
 // Helper to extract YouTube ID
 const getYouTubeVideoId = (url: string): string | null => {
   const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
@@ -63,7 +19,8 @@ const getYouTubeVideoId = (url: string): string | null => {
   return (match && match[2].length === 11) ? match[2] : null;
 };
 
-const RecommendationTile: React.FC<{ source: any }> = ({ source }) => {
+// Link preview for a grounding source (also used by the cast profile card)
+export const RecommendationTile: React.FC<{ source: any }> = ({ source }) => {
   const [meta, setMeta] = useState<{ 
     image?: string; 
     title?: string; 
@@ -211,7 +168,93 @@ const RecommendationTile: React.FC<{ source: any }> = ({ source }) => {
   );
 };
 
-export const ResultCard: React.FC<ResultCardProps> = ({ result, onClose }) => {
+// Tiles shown before "Show all"; a citation to a later source expands the list
+const VISIBLE_TILES = 4;
+const CITATION_HIGHLIGHT_MS = 2000;
+
+interface CitationTarget {
+  turn: number;
+  footnote: number;
+  // Distinguishes repeated clicks on the same marker
+  nonce: number;
+}
+
+const SourceTiles: React.FC<{ turn: ConversationTurn; highlight?: CitationTarget | null }> = ({ turn, highlight }) => {
+  const [showAll, setShowAll] = useState(false);
+  const [flashing, setFlashing] = useState<number | null>(null);
+  const tileRefs = useRef(new Map<number, HTMLDivElement>());
+
+  // Numbered in the same order as the footnote markers in the answer
+  const sources = getCitedSources(turn.groundingMetadata);
+
+  useEffect(() => {
+    if (!highlight) return;
+    if (highlight.footnote > VISIBLE_TILES) setShowAll(true);
+    setFlashing(highlight.footnote);
+    // Wait a frame so a tile revealed by "Show all" exists before scrolling to it
+    const frame = requestAnimationFrame(() => {
+      tileRefs.current.get(highlight.footnote)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    const timer = setTimeout(() => setFlashing(null), CITATION_HIGHLIGHT_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlight]);
+
+  if (sources.length === 0) return null;
+
+  const visible = showAll ? sources : sources.slice(0, VISIBLE_TILES);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-xs font-bold text-blue-300 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 10.5V6a3.75 3.75 0 10-7.5 0v4.5m11.356-1.993l1.263 12c.07.665-.45 1.243-1.119 1.243H4.25a1.125 1.125 0 01-1.12-1.243l1.264-12A1.125 1.125 0 015.513 7.5h12.974c.576 0 1.059.435 1.119 1.007zM8.625 10.5a.375.375 0 11-.75 0 .375.375 0 01.75 0zm7.5 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+        </svg>
+        Top Recommendations
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        {visible.map((source, idx) => {
+          const footnote = idx + 1;
+          return (
+            <div
+              key={source.chunkIndex}
+              ref={(el) => { if (el) tileRefs.current.set(footnote, el); else tileRefs.current.delete(footnote); }}
+              className={`relative rounded-xl transition-shadow duration-300 ${flashing === footnote ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-gray-900' : ''}`}
+            >
+              <span className="absolute top-2 left-2 z-30 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-black/70 text-[10px] font-mono font-bold text-blue-200 pointer-events-none">
+                {footnote}
+              </span>
+              <RecommendationTile source={source} />
+            </div>
+          );
+        })}
+      </div>
+      {sources.length > VISIBLE_TILES && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 w-full py-2 text-xs font-medium text-gray-300 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+        >
+          {showAll ? 'Show fewer sources' : `Show all ${sources.length} sources`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const QuestionBubble: React.FC<{ text: string }> = ({ text }) => (
+  <div className="flex justify-end mb-4">
+    <p className="max-w-[85%] bg-blue-600/30 border border-blue-500/30 text-blue-50 text-sm px-4 py-2 rounded-2xl rounded-br-sm">
+      {text}
+    </p>
+  </div>
+);
+
+export const ResultCard: React.FC<ResultCardProps> = ({ result, pendingTurn, followUpError, onFollowUp, onClose }) => {
+  const [followUp, setFollowUp] = useState("");
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const [citationTarget, setCitationTarget] = useState<CitationTarget | null>(null);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
 
@@ -237,11 +280,23 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onClose }) => {
     }
   };
 
-  // Extract grounding chunks for "Tiles"
-  const sources = result.groundingMetadata?.groundingChunks
-    ?.filter((chunk: any) => chunk.web?.uri && chunk.web?.title)
-    .map((chunk: any) => chunk.web)
-    .slice(0, 4);
+  // Keep the latest turn in view as the thread grows
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [result.turns.length, pendingTurn?.query]);
+
+  const handleFollowUpSubmit = (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    if (!followUp.trim() || pendingTurn) return;
+    onFollowUp(followUp.trim());
+    setFollowUp("");
+  };
+
+  const handleFollowUpKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleFollowUpSubmit(e);
+    }
+  };
 
   return (
     <div 
@@ -269,24 +324,40 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onClose }) => {
 
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto custom-scrollbar">
-        <div className="p-6">
-          <FormattedText text={result.answer} />
-        </div>
-        
-        {/* Recommendation / Source Tiles */}
-        {sources && sources.length > 0 && (
-          <div className="p-6 pt-0 mt-4">
-            <h3 className="text-xs font-bold text-blue-300 uppercase tracking-widest mb-4 flex items-center gap-2">
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 10.5V6a3.75 3.75 0 10-7.5 0v4.5m11.356-1.993l1.263 12c.07.665-.45 1.243-1.119 1.243H4.25a1.125 1.125 0 01-1.12-1.243l1.264-12A1.125 1.125 0 015.513 7.5h12.974c.576 0 1.059.435 1.119 1.007zM8.625 10.5a.375.375 0 11-.75 0 .375.375 0 01.75 0zm7.5 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
-              </svg>
-              Top Recommendations
-            </h3>
-            <div className="grid grid-cols-2 gap-3">
-              {sources.map((source: any, idx: number) => (
-                  <RecommendationTile key={idx} source={source} />
-              ))}
-            </div>
+        {result.turns.map((turn, i) => (
+          <div key={i} className={`p-6 ${i > 0 ? 'border-t border-white/5' : ''}`}>
+            <QuestionBubble text={turn.query} />
+            {turn.fromCache && (
+              <p className="text-[10px] font-mono uppercase tracking-wider text-gray-500 mb-2">
+                Cached answer · ask with "Fresh answer" to refresh
+              </p>
+            )}
+            <MarkdownText
+              text={insertCitationMarkers(turn.answer, turn.groundingMetadata)}
+              onCitation={(footnote) => setCitationTarget({ turn: i, footnote, nonce: Date.now() })}
+            />
+            <SourceTiles turn={turn} highlight={citationTarget?.turn === i ? citationTarget : null} />
+          </div>
+        ))}
+
+        {/* In-flight turn (streams in progressively; tiles appear once it completes) */}
+        {pendingTurn && (
+          <div className={`p-6 ${result.turns.length > 0 ? 'border-t border-white/5' : ''}`}>
+            <QuestionBubble text={pendingTurn.query} />
+            {pendingTurn.answer ? (
+              <MarkdownText text={pendingTurn.answer} isStreaming />
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-blue-300">
+                <span className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></span>
+                Thinking about this scene...
+              </div>
+            )}
+          </div>
+        )}
+
+        {followUpError && (
+          <div className="mx-6 mb-2 p-3 bg-red-900/30 border border-red-500/30 rounded-xl text-sm text-red-200">
+            {followUpError}
           </div>
         )}
 
@@ -300,7 +371,30 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onClose }) => {
               </p>
             </div>
         </div>
+        <div ref={threadEndRef} />
       </div>
+
+      {/* Follow-up Input */}
+      <form onSubmit={handleFollowUpSubmit} className="p-4 border-t border-white/10 bg-gray-900/50 flex items-end gap-2 flex-shrink-0">
+        <textarea
+          value={followUp}
+          onChange={(e) => setFollowUp(e.target.value)}
+          onKeyDown={handleFollowUpKeyDown}
+          rows={1}
+          placeholder="Ask a follow-up about this scene..."
+          className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all resize-none"
+        />
+        <button
+          type="submit"
+          disabled={!followUp.trim() || !!pendingTurn}
+          className="p-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Send follow-up"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+          </svg>
+        </button>
+      </form>
       
       {/* Visual Pull Handle for Mobile Hint */}
       <div className="absolute right-2 top-1/2 -translate-y-1/2 w-1 h-16 bg-white/10 rounded-full sm:hidden"></div>
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { CastRoster, RosterCharacter } from '../types';
+import { REFERENCE_IMAGE_WIDTH } from '../services/castRoster';
+import { createThumbnail } from '../services/historyStore';
+
+interface RosterEditorProps {
+  roster: CastRoster;
+  onSave: (roster: CastRoster) => void;
+  onClose: () => void;
+}
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all';
+
+const parseOptionalNumber = (value: string) => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+// Who is in the loaded title, as told by the user; used instead of the model's guesswork in every prompt
+export const RosterEditor: React.FC<RosterEditorProps> = ({ roster, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CastRoster>(roster);
+  const [imageError, setImageError] = useState<string | null>(null);
+
+  const updateCharacter = (index: number, changes: Partial<RosterCharacter>) => {
+    setDraft(prev => ({
+      ...prev,
+      characters: prev.characters.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  const addCharacter = () => {
+    setDraft(prev => ({ ...prev, characters: [...prev.characters, { name: "", actor: "" }] }));
+  };
+
+  const removeCharacter = (index: number) => {
+    setDraft(prev => ({ ...prev, characters: prev.characters.filter((_, i) => i !== index) }));
+  };
+
+  const handleImagePick = async (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const referenceImage = await createThumbnail(await readFileAsDataUrl(file), REFERENCE_IMAGE_WIDTH);
+      updateCharacter(index, { referenceImage });
+      setImageError(null);
+    } catch (error) {
+      console.warn("Failed to read reference image", error);
+      setImageError(`Couldn't read "${file.name}" as an image.`);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      show: draft.show.trim(),
+      characters: draft.characters
+        .map(c => ({ ...c, name: c.name.trim(), actor: c.actor.trim() }))
+        .filter(c => c.name),
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="absolute top-0 bottom-0 right-0 z-50 w-[90%] sm:w-[400px] flex flex-col bg-gray-900/95 backdrop-blur-xl border-l border-white/10 shadow-2xl"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-white/10 bg-gray-900/50 flex-shrink-0">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white">Cast Roster</h2>
+          <p className="text-xs text-gray-500 truncate">{roster.mediaTitle}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-6">
+        {/* Title */}
+        <div className="space-y-3">
+          <label className="block">
+            <span className="text-xs text-blue-400 uppercase font-bold tracking-widest">Show or film</span>
+            <input
+              value={draft.show}
+              onChange={(e) => setDraft({ ...draft, show: e.target.value })}
+              placeholder="e.g. Stranger Things"
+              className={`${inputClass} mt-2`}
+            />
+          </label>
+          <div className="flex gap-3">
+            <label className="flex-1">
+              <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Season</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.season ?? ""}
+                onChange={(e) => setDraft({ ...draft, season: parseOptionalNumber(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="flex-1">
+              <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Episode</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.episode ?? ""}
+                onChange={(e) => setDraft({ ...draft, episode: parseOptionalNumber(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Characters */}
+        <div>
+          <h3 className="text-xs text-blue-400 uppercase font-bold tracking-widest mb-3">Characters</h3>
+          {draft.characters.length === 0 && (
+            <p className="text-sm text-gray-500 mb-3">No characters yet. Identify Cast will rely on the model's own knowledge.</p>
+          )}
+          <ul className="space-y-3">
+            {draft.characters.map((character, i) => (
+              <li key={i} className="flex gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+                {/* Reference photo */}
+                <label className="relative w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-black/40 border border-dashed border-white/20 hover:border-blue-500 cursor-pointer flex items-center justify-center transition-colors" title="Reference photo (optional)">
+                  {character.referenceImage ? (
+                    <img src={character.referenceImage} alt={character.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-500">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0z" />
+                    </svg>
+                  )}
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => handleImagePick(i, e)} />
+                </label>
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <input
+                    value={character.name}
+                    onChange={(e) => updateCharacter(i, { name: e.target.value })}
+                    placeholder="Character name"
+                    className={inputClass}
+                  />
+                  <input
+                    value={character.actor}
+                    onChange={(e) => updateCharacter(i, { actor: e.target.value })}
+                    placeholder="Actor (optional)"
+                    className={inputClass}
+                  />
+                  {character.referenceImage && (
+                    <button
+                      type="button"
+                      onClick={() => updateCharacter(i, { referenceImage: undefined })}
+                      className="text-[11px] text-gray-400 hover:text-white transition-colors"
+                    >
+                      Remove photo
+                    </button>
+                  )}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => removeCharacter(i)}
+                  className="self-start p-1.5 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Remove character"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {imageError && <p className="text-xs text-red-300 mt-2">{imageError}</p>}
+          <button
+            type="button"
+            onClick={addCharacter}
+            className="mt-3 w-full py-2 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 border border-dashed border-white/20 rounded-lg transition-colors"
+          >
+            + Add character
+          </button>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 border-t border-white/5 flex-shrink-0">
+        <button
+          type="submit"
+          className="w-full py-3 bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-bold rounded-xl shadow-lg shadow-blue-900/30 transition-all active:scale-[0.98]"
+        >
+          Save roster
+        </button>
+      </div>
+    </form>
+  );
+};
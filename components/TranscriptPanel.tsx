@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SubtitleCue } from '../types';
+import { downloadTextFile, toFileSlug } from '../services/download';
+import { toWebVTT } from '../services/subtitles';
+import { formatTimestamp } from '../services/timeFormat';
+
+interface TranscriptPanelProps {
+  // Used for the exported file name
+  title: string;
+  cues: SubtitleCue[];
+  currentTime: number;
+  isTranscribing: boolean;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+// Wrap case-insensitive matches of `needle` in <mark>
+const highlight = (text: string, needle: string) => {
+  if (!needle) return text;
+  const parts = text.split(new RegExp(`(${needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'));
+  return parts.map((part, i) =>
+    part.toLowerCase() === needle ? <mark key={i} className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+// Searchable AI caption transcript; clicking a line jumps to it
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ title, cues, currentTime, isTranscribing, onSeek, onClose }) => {
+  const [search, setSearch] = useState("");
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const needle = search.trim().toLowerCase();
+  const visible = needle ? cues.filter(cue => cue.text.toLowerCase().includes(needle)) : cues;
+  const activeIndex = visible.findIndex(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  // Follow playback, unless the user is looking through search results
+  useEffect(() => {
+    if (!needle) activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex, needle]);
+
+  const handleExport = () => {
+    downloadTextFile(toWebVTT(cues), `${toFileSlug(title, 'video')}-captions.vtt`, 'text/vtt');
+  };
+
+  return (
+    <div className="absolute top-0 bottom-0 right-0 z-30 w-[90%] sm:w-[340px] flex flex-col bg-gray-900/95 backdrop-blur-xl border-l border-white/10 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-white/10 bg-gray-900/50 flex-shrink-0">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white">Transcript</h2>
+          <p className="text-xs text-gray-500 truncate">
+            {isTranscribing ? 'AI captions on · transcribing as you watch' : `${cues.length} lines`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="p-4 border-b border-white/5 flex-shrink-0">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search the transcript..."
+          className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-sm text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all"
+        />
+      </div>
+
+      {/* Lines */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {visible.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-8 px-4">
+            {needle ? 'No matching lines.' : 'Dialogue will appear here a few seconds after it is spoken.'}
+          </p>
+        )}
+        {visible.map((cue, i) => (
+          <button
+            key={`${cue.start}-${i}`}
+            ref={i === activeIndex ? activeRef : undefined}
+            onClick={() => onSeek(cue.start)}
+            className={`w-full flex gap-3 text-left px-3 py-2 rounded-lg transition-colors ${
+              i === activeIndex ? 'bg-blue-500/15' : 'hover:bg-white/5'
+            }`}
+          >
+            <span className="text-[10px] font-mono text-blue-300 pt-0.5 flex-shrink-0">{formatTimestamp(cue.start)}</span>
+            <span className="text-sm text-gray-200 leading-snug">{highlight(cue.text, needle)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Footer */}
+      {cues.length > 0 && (
+        <div className="p-4 border-t border-white/5 flex-shrink-0">
+          <button
+            onClick={handleExport}
+            className="w-full py-2 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+          >
+            Export captions (.vtt)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
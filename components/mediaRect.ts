@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+
+export interface DisplayRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type MediaElement = HTMLVideoElement | HTMLImageElement;
+
+// Where the picture actually sits inside an object-contain <video> or <img> (excluding letterboxing)
+export const getDisplayedMediaRect = (media: MediaElement): DisplayRect | null => {
+  const naturalWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+  const naturalHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+  if (!naturalWidth || !naturalHeight) return null;
+  const scale = Math.min(media.clientWidth / naturalWidth, media.clientHeight / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    left: media.offsetLeft + (media.clientWidth - width) / 2,
+    top: media.offsetTop + (media.clientHeight - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Keeps the displayed rect current as the element resizes (window resize, fullscreen, metadata/image load)
+export const useDisplayedMediaRect = (mediaRef: React.RefObject<MediaElement | null>) => {
+  const [rect, setRect] = useState<DisplayRect | null>(null);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    const update = () => setRect(getDisplayedMediaRect(media));
+    update();
+
+    const observer = new ResizeObserver(update);
+    observer.observe(media);
+    media.addEventListener('loadedmetadata', update);
+    media.addEventListener('load', update);
+    return () => {
+      observer.disconnect();
+      media.removeEventListener('loadedmetadata', update);
+      media.removeEventListener('load', update);
+    };
+  }, [mediaRef]);
+
+  return rect;
+};
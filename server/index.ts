@@ -0,0 +1,186 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { SceneAnalysisProvider } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "../services/geminiService";
+import { isAbortError } from "../services/errors";
+import { AnalyzeStreamEvent, PROXY_ROUTES, STATUS_BY_KIND, toErrorBody } from "../services/proxyProtocol";
+import { createRateLimiter, rateLimitKey } from "./rateLimit";
+import { HttpError, parseAnalysisRequest, parseDetectionOptions, readDataUrl } from "./validation";
+
+// API proxy: holds the Gemini key so the browser bundle never has to. Run with `npm run server`.
+
+// Same files Vite reads; variables already set in the environment win
+for (const file of [".env.local", ".env"]) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Optional: configuration can come from the environment alone
+  }
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// A full-size frame, a region crop, a few recent frames, an audio clip and roster photos fit comfortably
+const MAX_BODY_BYTES = (Number(process.env.PROXY_MAX_BODY_KB) || 8192) * 1024;
+// Requests per client per minute (bursts up to the same number)
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 30;
+// For a reverse proxy on another host that sets X-Forwarded-For; otherwise clients could pick their own identity
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === "1";
+// For a client served from another origin; same-origin setups (the Vite dev proxy) don't need it
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN;
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error("GEMINI_API_KEY is not set; add it to .env or the environment.");
+  process.exit(1);
+}
+
+const provider: SceneAnalysisProvider = createGeminiProvider({ apiKey, model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL });
+const limiter = createRateLimiter({ limit: RATE_LIMIT, windowMs: 60_000 });
+setInterval(() => limiter.prune(), 60_000).unref();
+
+const clientId = (req: IncomingMessage) =>
+  rateLimitKey(req.socket.remoteAddress, req.headers["x-forwarded-for"], TRUST_FORWARDED);
+
+const readJsonBody = (req: IncomingMessage) =>
+  new Promise<Record<string, unknown>>((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+      reject(new HttpError(413, `Payload exceeds ${MAX_BODY_BYTES / 1024} KB`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Drain the rest without keeping it: destroying the request would reset the socket before the 413 goes out
+        req.off("data", onData);
+        req.resume();
+        chunks.length = 0;
+        reject(new HttpError(413, `Payload exceeds ${MAX_BODY_BYTES / 1024} KB`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        if (typeof body !== "object" || body === null || Array.isArray(body)) throw new Error();
+        resolve(body);
+      } catch {
+        reject(new HttpError(400, "Body must be a JSON object"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { message: error.message } });
+    return;
+  }
+  const body = toErrorBody(error);
+  const status = body.kind ? STATUS_BY_KIND[body.kind] : 500;
+  const headers: Record<string, string> = body.retryAfterMs ? { "Retry-After": String(Math.ceil(body.retryAfterMs / 1000)) } : {};
+  sendJson(res, status, { error: body }, headers);
+};
+
+// The answer streams as NDJSON: text deltas as they arrive, then the finished turn (or an error)
+const handleAnalyze = async (body: Record<string, unknown>, res: ServerResponse, signal: AbortSignal) => {
+  // Validated before the 200 goes out, so a bad field is still a plain 400
+  const request = parseAnalysisRequest(body);
+
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  const send = (event: AnalyzeStreamEvent) => res.write(JSON.stringify(event) + "\n");
+
+  let sent = "";
+  try {
+    const turn = await provider.analyzeFrameWithQuery({ ...request, signal }, (partialAnswer) => {
+      // A retry after a mid-stream failure starts the answer over, so the client has to replace its copy
+      send(partialAnswer.startsWith(sent)
+        ? { type: "text", delta: partialAnswer.slice(sent.length) }
+        : { type: "restart", text: partialAnswer });
+      sent = partialAnswer;
+    });
+    send({ type: "done", turn });
+  } catch (error) {
+    if (!isAbortError(error)) send({ type: "error", error: toErrorBody(error) });
+  }
+  res.end();
+};
+
+const routes: Record<string, (body: Record<string, unknown>, res: ServerResponse, signal: AbortSignal) => Promise<void>> = {
+  [PROXY_ROUTES.analyze]: handleAnalyze,
+  [PROXY_ROUTES.identify]: async (body, res, signal) => {
+    const imageData = readDataUrl(body.imageData, "imageData", "image");
+    sendJson(res, 200, await provider.detectCharactersInFrame(imageData, { ...parseDetectionOptions(body), signal }));
+  },
+  [PROXY_ROUTES.products]: async (body, res, signal) => {
+    const imageData = readDataUrl(body.imageData, "imageData", "image");
+    sendJson(res, 200, await provider.detectProductsInFrame(imageData, { ...parseDetectionOptions(body), signal }));
+  },
+  [PROXY_ROUTES.summarize]: async (body, res, signal) => {
+    const imageData = readDataUrl(body.imageData, "imageData", "image");
+    sendJson(res, 200, await provider.summarizeScene(imageData, { signal }));
+  },
+  [PROXY_ROUTES.transcribe]: async (body, res, signal) => {
+    const audioData = readDataUrl(body.audioData, "audioData", "audio");
+    sendJson(res, 200, await provider.transcribeAudio(audioData, { signal }));
+  },
+};
+
+const server = createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  }
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const path = new URL(req.url ?? "/", "http://proxy").pathname;
+  if (req.method === "GET" && path === "/health") {
+    sendJson(res, 200, { ok: true, clients: limiter.size() });
+    return;
+  }
+  const route = routes[path];
+  if (!route || req.method !== "POST") {
+    sendJson(res, 404, { error: { message: "Not found" } });
+    return;
+  }
+
+  const retryAfterMs = limiter.take(clientId(req));
+  if (retryAfterMs > 0) {
+    sendJson(res, 429, { error: { kind: "rate-limit", message: "Too many requests from this client", retryAfterMs } }, {
+      "Retry-After": String(Math.ceil(retryAfterMs / 1000)),
+    });
+    return;
+  }
+
+  // The browser cancelling (or going away) aborts the model call and any backoff wait
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    await route(await readJsonBody(req), res, controller.signal);
+  } catch (error) {
+    if (isAbortError(error) || res.headersSent) {
+      res.end();
+      return;
+    }
+    if (!(error instanceof HttpError)) console.error(`${path} failed:`, error);
+    sendError(res, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Scene Detective API proxy listening on http://localhost:${PORT} (${RATE_LIMIT} requests/min per client)`);
+});
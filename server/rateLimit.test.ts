@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter, rateLimitKey } from "./rateLimit";
+
+// Every call passes its own `now`, so the clock is whatever the test says it is
+describe("createRateLimiter", () => {
+  it("allows a burst up to the limit, then reports when the next token arrives", () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60_000 });
+
+    expect([limiter.take("a", 0), limiter.take("a", 0), limiter.take("a", 0)]).toEqual([0, 0, 0]);
+    // One token per 20 s
+    expect(limiter.take("a", 0)).toBe(20_000);
+    expect(limiter.take("a", 5_000)).toBe(15_000);
+  });
+
+  it("refills continuously over time", () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60_000 });
+    for (let i = 0; i < 3; i++) limiter.take("a", 0);
+
+    expect(limiter.take("a", 19_999)).toBeGreaterThan(0);
+    expect(limiter.take("a", 20_000)).toBe(0);
+    expect(limiter.take("a", 20_000)).toBe(20_000);
+  });
+
+  it("never refills past the burst size", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1_000 });
+    limiter.take("a", 0);
+
+    const afterIdle = [limiter.take("a", 60_000), limiter.take("a", 60_000), limiter.take("a", 60_000)];
+    expect(afterIdle.map(wait => wait === 0)).toEqual([true, true, false]);
+  });
+
+  it("keeps a separate bucket per client", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.take("a", 0)).toBe(0);
+    expect(limiter.take("a", 0)).toBeGreaterThan(0);
+    expect(limiter.take("b", 0)).toBe(0);
+  });
+
+  it("prunes clients whose bucket has refilled, and only those", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.take("idle", 0);
+    limiter.take("busy", 0);
+    limiter.take("busy", 50_000);
+    expect(limiter.size()).toBe(2);
+
+    // "idle" is full again at 30 s; "busy" spent a token at 50 s and isn't until 80 s
+    limiter.prune(60_000);
+    expect(limiter.size()).toBe(1);
+
+    limiter.prune(80_000);
+    expect(limiter.size()).toBe(0);
+  });
+});
+
+describe("rateLimitKey", () => {
+  it("uses the peer address for direct connections and ignores their X-Forwarded-For", () => {
+    expect(rateLimitKey("203.0.113.7", undefined, false)).toBe("203.0.113.7");
+    expect(rateLimitKey("203.0.113.7", "198.51.100.1", false)).toBe("203.0.113.7");
+  });
+
+  it("uses the hop a local proxy appended", () => {
+    expect(rateLimitKey("127.0.0.1", "203.0.113.7", false)).toBe("203.0.113.7");
+    expect(rateLimitKey("::ffff:127.0.0.1", "203.0.113.7", false)).toBe("203.0.113.7");
+  });
+
+  it("can't be steered by a spoofed X-Forwarded-For sent through the local proxy", () => {
+    // The dev proxy appends the real peer after whatever the browser sent
+    const keys = ["1.1.1.1", "2.2.2.2", "3.3.3.3, 4.4.4.4"].map(spoofed =>
+      rateLimitKey("127.0.0.1", `${spoofed}, 203.0.113.7`, false));
+
+    expect(new Set(keys)).toEqual(new Set(["203.0.113.7"]));
+  });
+
+  it("trusts a remote proxy's header only when configured", () => {
+    expect(rateLimitKey("10.0.0.2", "1.1.1.1, 203.0.113.7", true)).toBe("203.0.113.7");
+    expect(rateLimitKey("10.0.0.2", ["1.1.1.1", "203.0.113.7"], true)).toBe("203.0.113.7");
+  });
+
+  it("falls back to the peer when a local proxy sent no header", () => {
+    expect(rateLimitKey("127.0.0.1", undefined, false)).toBe("127.0.0.1");
+    expect(rateLimitKey("127.0.0.1", " , ", false)).toBe("127.0.0.1");
+  });
+});
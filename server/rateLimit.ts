@@ -0,0 +1,58 @@
+export interface RateLimiterOptions {
+  // Requests allowed per client per window; also the burst size
+  limit: number;
+  windowMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per client, refilled continuously, so a burst is fine but a sustained flood is not
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / windowMs;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  // 0 if the request may go ahead, otherwise how long until the client has a token again
+  const take = (client: string, now = Date.now()): number => {
+    const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+    refill(bucket, now);
+    buckets.set(client, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs);
+  };
+
+  // A full bucket is the same as no bucket, so idle clients can be forgotten
+  const prune = (now = Date.now()) => {
+    for (const [client, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= limit) buckets.delete(client);
+    }
+  };
+
+  // Clients currently being tracked
+  const size = () => buckets.size;
+
+  return { take, prune, size };
+};
+
+const isLoopback = (address?: string) =>
+  address === "::1" || address?.startsWith("127.") || address?.startsWith("::ffff:127.");
+
+// Rate limit identity. A loopback peer is a proxy on this machine (the Vite dev server, or nginx in front),
+// and every client would share its address, so the header it forwards is used instead. Only the last
+// X-Forwarded-For entry is the one that proxy appended; anything before it came from the client.
+export const rateLimitKey = (peer: string | undefined, forwardedFor: string | string[] | undefined, trustForwarded: boolean) => {
+  const hops = [forwardedFor ?? []].flat().join(",").split(",").map(hop => hop.trim()).filter(Boolean);
+  if ((trustForwarded || isLoopback(peer)) && hops.length > 0) return hops[hops.length - 1];
+  return peer ?? "unknown";
+};
@@ -0,0 +1,156 @@
+import { AnalysisRequest, CastRoster, ConversationTurn, DetectionOptions, FrameRegion, MediaContext, RosterCharacter, SubtitleCue, TimedFrame } from "../types";
+
+// Request bodies are rebuilt field by field from an allow-list, so nothing the client invents reaches the
+// model call and a badly shaped field is a 400 before any work (or the /analyze stream) starts
+
+// Client-caused failures, answered with their status before any model call is made
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Generous next to what the app sends (5 recent frames, 12 subtitle lines, a short thread)
+export const MAX_QUERY_LENGTH = 2000;
+const MAX_ANSWER_LENGTH = 20000;
+const MAX_LABEL_LENGTH = 500;
+const MAX_CUE_LENGTH = 1000;
+const MAX_HISTORY_TURNS = 20;
+const MAX_RECENT_FRAMES = 8;
+const MAX_CUES = 40;
+const MAX_ROSTER_CHARACTERS = 50;
+
+type Body = Record<string, unknown>;
+
+const invalid = (field: string) => new HttpError(400, `"${field}" is missing or invalid`);
+
+const isObject = (value: unknown): value is Body =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, field: string): Body => {
+  if (!isObject(value)) throw invalid(field);
+  return value;
+};
+
+const readString = (value: unknown, field: string, maxLength: number) => {
+  if (typeof value !== "string") throw invalid(field);
+  if (value.length > maxLength) throw new HttpError(413, `"${field}" exceeds ${maxLength} characters`);
+  return value;
+};
+
+const readNumber = (value: unknown, field: string) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw invalid(field);
+  return value;
+};
+
+// The overall body cap bounds its size; the prefix keeps text out of the inlineData parts
+export const readDataUrl = (value: unknown, field: string, kind: "image" | "audio") => {
+  if (typeof value !== "string" || !value.startsWith(`data:${kind}/`)) throw invalid(field);
+  return value;
+};
+
+const readArray = <T>(value: unknown, field: string, maxItems: number, readItem: (item: unknown, field: string) => T): T[] => {
+  if (!Array.isArray(value)) throw invalid(field);
+  if (value.length > maxItems) throw new HttpError(413, `"${field}" has more than ${maxItems} items`);
+  return value.map((item, i) => readItem(item, `${field}[${i}]`));
+};
+
+// JSON has no undefined; null and a missing key both mean "not sent"
+const optional = <T>(value: unknown, field: string, read: (value: unknown, field: string) => T): T | undefined =>
+  value === undefined || value === null ? undefined : read(value, field);
+
+const readMedia = (value: unknown, field: string): MediaContext => {
+  const media = readObject(value, field);
+  if (media.mediaType !== "video" && media.mediaType !== "image") throw invalid(`${field}.mediaType`);
+  return {
+    title: readString(media.title, `${field}.title`, MAX_LABEL_LENGTH),
+    show: optional(media.show, `${field}.show`, (v, f) => readString(v, f, MAX_LABEL_LENGTH)),
+    season: optional(media.season, `${field}.season`, readNumber),
+    episode: optional(media.episode, `${field}.episode`, readNumber),
+    currentTime: optional(media.currentTime, `${field}.currentTime`, readNumber),
+    duration: optional(media.duration, `${field}.duration`, readNumber),
+    mediaType: media.mediaType,
+  };
+};
+
+const readCharacter = (value: unknown, field: string): RosterCharacter => {
+  const character = readObject(value, field);
+  return {
+    name: readString(character.name, `${field}.name`, MAX_LABEL_LENGTH),
+    actor: readString(character.actor ?? "", `${field}.actor`, MAX_LABEL_LENGTH),
+    referenceImage: optional(character.referenceImage, `${field}.referenceImage`, (v, f) => readDataUrl(v, f, "image")),
+  };
+};
+
+const readRoster = (value: unknown, field: string): CastRoster => {
+  const roster = readObject(value, field);
+  return {
+    mediaTitle: readString(roster.mediaTitle ?? "", `${field}.mediaTitle`, MAX_LABEL_LENGTH),
+    show: readString(roster.show ?? "", `${field}.show`, MAX_LABEL_LENGTH),
+    season: optional(roster.season, `${field}.season`, readNumber),
+    episode: optional(roster.episode, `${field}.episode`, readNumber),
+    characters: readArray(roster.characters, `${field}.characters`, MAX_ROSTER_CHARACTERS, readCharacter),
+    updatedAt: optional(roster.updatedAt, `${field}.updatedAt`, readNumber) ?? 0,
+  };
+};
+
+const readCue = (value: unknown, field: string): SubtitleCue => {
+  const cue = readObject(value, field);
+  return {
+    start: readNumber(cue.start, `${field}.start`),
+    end: readNumber(cue.end, `${field}.end`),
+    text: readString(cue.text, `${field}.text`, MAX_CUE_LENGTH),
+  };
+};
+
+const readFrame = (value: unknown, field: string): TimedFrame => {
+  const frame = readObject(value, field);
+  return {
+    timestamp: readNumber(frame.timestamp, `${field}.timestamp`),
+    imageData: readDataUrl(frame.imageData, `${field}.imageData`, "image"),
+  };
+};
+
+const readRegion = (value: unknown, field: string): FrameRegion => {
+  const region = readObject(value, field);
+  return {
+    ymin: readNumber(region.ymin, `${field}.ymin`),
+    xmin: readNumber(region.xmin, `${field}.xmin`),
+    ymax: readNumber(region.ymax, `${field}.ymax`),
+    xmax: readNumber(region.xmax, `${field}.xmax`),
+  };
+};
+
+// Only what the prompt replays; grounding metadata of earlier turns stays on the client
+const readTurn = (value: unknown, field: string): ConversationTurn => {
+  const turn = readObject(value, field);
+  return {
+    query: readString(turn.query, `${field}.query`, MAX_QUERY_LENGTH),
+    answer: readString(turn.answer, `${field}.answer`, MAX_ANSWER_LENGTH),
+  };
+};
+
+const readQuery = (value: unknown) => {
+  const query = readString(value, "query", MAX_QUERY_LENGTH);
+  if (!query.trim()) throw invalid("query");
+  return query;
+};
+
+export const parseAnalysisRequest = (body: Body): AnalysisRequest => ({
+  imageData: readDataUrl(body.imageData, "imageData", "image"),
+  query: readQuery(body.query),
+  audioData: optional(body.audioData, "audioData", (v, f) => readDataUrl(v, f, "audio")),
+  media: optional(body.media, "media", readMedia),
+  recentFrames: optional(body.recentFrames, "recentFrames", (v, f) => readArray(v, f, MAX_RECENT_FRAMES, readFrame)),
+  subtitles: optional(body.subtitles, "subtitles", (v, f) => readArray(v, f, MAX_CUES, readCue)),
+  transcript: optional(body.transcript, "transcript", (v, f) => readArray(v, f, MAX_CUES, readCue)),
+  region: optional(body.region, "region", readRegion),
+  regionImageData: optional(body.regionImageData, "regionImageData", (v, f) => readDataUrl(v, f, "image")),
+  roster: optional(body.roster, "roster", readRoster),
+  history: optional(body.history, "history", (v, f) => readArray(v, f, MAX_HISTORY_TURNS, readTurn)),
+});
+
+export const parseDetectionOptions = (body: Body): DetectionOptions => ({
+  media: optional(body.media, "media", readMedia),
+  roster: optional(body.roster, "roster", readRoster),
+});
@@ -0,0 +1,148 @@
+// Rolling audio capture backed by an AudioWorklet ring buffer (replaces ScriptProcessorNode)
+
+export interface AudioCaptureOptions {
+  // How much history to keep, in seconds
+  windowSeconds: number;
+  // 1 = mono, 2 = stereo (a mono source is duplicated into both channels)
+  channels: 1 | 2;
+}
+
+export interface AudioSnapshot {
+  // One array per channel, oldest sample first
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface AudioCapture {
+  readonly sampleRate: number;
+  setRecording(recording: boolean): void;
+  clear(): void;
+  snapshot(): Promise<AudioSnapshot>;
+  dispose(): void;
+}
+
+const PROCESSOR_NAME = "scene-detective-ring-buffer";
+const SNAPSHOT_TIMEOUT_MS = 1000;
+
+// Runs on the audio thread: fixed-size ring buffer per channel, no per-callback allocation
+const PROCESSOR_SOURCE = `
+class RingBufferCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { capacity, channels } = options.processorOptions;
+    this.capacity = capacity;
+    this.buffers = Array.from({ length: channels }, () => new Float32Array(capacity));
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.recording = true;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    if (message.type === "record") {
+      this.recording = message.value;
+    } else if (message.type === "clear") {
+      this.writeIndex = 0;
+      this.filled = 0;
+    } else if (message.type === "snapshot") {
+      const start = (this.writeIndex - this.filled + this.capacity) % this.capacity;
+      const head = Math.min(this.filled, this.capacity - start);
+      const channels = this.buffers.map((buffer) => {
+        const out = new Float32Array(this.filled);
+        out.set(buffer.subarray(start, start + head));
+        out.set(buffer.subarray(0, this.filled - head), head);
+        return out;
+      });
+      this.port.postMessage({ type: "snapshot", id: message.id, channels }, channels.map((c) => c.buffer));
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!this.recording || !input || input.length === 0) return true;
+
+    const frames = input[0].length;
+    const head = Math.min(frames, this.capacity - this.writeIndex);
+    for (let c = 0; c < this.buffers.length; c++) {
+      const source = input[Math.min(c, input.length - 1)];
+      const buffer = this.buffers[c];
+      buffer.set(source.subarray(0, head), this.writeIndex);
+      if (head < frames) buffer.set(source.subarray(head), 0);
+    }
+    this.writeIndex = (this.writeIndex + frames) % this.capacity;
+    this.filled = Math.min(this.capacity, this.filled + frames);
+    return true;
+  }
+}
+
+registerProcessor("${PROCESSOR_NAME}", RingBufferCapture);
+`;
+
+// addModule() may only be called once per context for a given processor name
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+const registerProcessor = async (ctx: BaseAudioContext) => {
+  if (registeredContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    registeredContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Tap `source` into a ring buffer sized from the context's real sample rate
+export const createAudioCapture = async (
+  ctx: AudioContext,
+  source: AudioNode,
+  { windowSeconds, channels }: AudioCaptureOptions
+): Promise<AudioCapture> => {
+  await registerProcessor(ctx);
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: channels,
+    channelCountMode: "explicit",
+    processorOptions: { capacity: Math.ceil(ctx.sampleRate * windowSeconds), channels },
+  });
+
+  source.connect(node);
+  // The processor writes no output (silence), but must be connected to keep being pulled
+  node.connect(ctx.destination);
+
+  let nextRequestId = 0;
+  const pending = new Map<number, (channels: Float32Array[]) => void>();
+  node.port.onmessage = (event) => {
+    if (event.data.type === "snapshot") {
+      pending.get(event.data.id)?.(event.data.channels);
+      pending.delete(event.data.id);
+    }
+  };
+
+  return {
+    sampleRate: ctx.sampleRate,
+    setRecording: (recording) => node.port.postMessage({ type: "record", value: recording }),
+    clear: () => node.port.postMessage({ type: "clear" }),
+    snapshot: () => new Promise((resolve) => {
+      const id = nextRequestId++;
+      // A closed context never answers; fall back to an empty clip rather than hang the question
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        resolve({ channels: [], sampleRate: ctx.sampleRate });
+      }, SNAPSHOT_TIMEOUT_MS);
+      pending.set(id, (captured) => {
+        clearTimeout(timer);
+        resolve({ channels: captured, sampleRate: ctx.sampleRate });
+      });
+      node.port.postMessage({ type: "snapshot", id });
+    }),
+    dispose: () => {
+      pending.clear();
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+};
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeAudioClip, encodeWAV, muxOggOpus, oggCrc, oggPage, OpusPacket, trimSilence } from "./audioEncoding";
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+const ascii = (bytes: Uint8Array) => Buffer.from(bytes).toString("latin1");
+
+// The fields of one Ogg page, read back from a muxed stream
+const readPages = (stream: Uint8Array) => {
+  const pages = [];
+  let offset = 0;
+  while (offset < stream.length) {
+    const view = new DataView(stream.buffer, stream.byteOffset + offset);
+    const segments = view.getUint8(26);
+    const lacing = [...stream.subarray(offset + 27, offset + 27 + segments)];
+    const bodyLength = lacing.reduce((sum, n) => sum + n, 0);
+    const length = 27 + segments + bodyLength;
+    pages.push({
+      capture: ascii(stream.subarray(offset, offset + 4)),
+      headerType: view.getUint8(5),
+      granule: view.getUint32(6, true) + view.getUint32(10, true) * 2 ** 32,
+      sequence: view.getUint32(18, true),
+      crc: view.getUint32(22, true),
+      lacing,
+      body: stream.subarray(offset + 27 + segments, offset + length),
+      bytes: stream.subarray(offset, offset + length),
+    });
+    offset += length;
+  }
+  return pages;
+};
+
+const packet = (length: number, samples48k = 960): OpusPacket => ({ data: new Uint8Array(length).fill(length % 256), samples48k });
+
+describe("oggCrc", () => {
+  it("matches the CRC-32 check value for Ogg's parameters", () => {
+    expect(oggCrc(new TextEncoder().encode("123456789"))).toBe(0x89a1897f);
+  });
+});
+
+describe("oggPage", () => {
+  it("lays out a page byte for byte like a reference muxer", () => {
+    const head = muxOggOpus([], 16000).subarray(28, 47);
+
+    // OpusHead page at 16 kHz, serial 0x5d5d0001; CRC computed independently (bitwise, not table-driven)
+    expect(hex(oggPage([head], 0, 0, 0x02))).toBe(
+      "4f6767530002000000000000000001005d5d00000000e9d1565101134f7075734865616401013801803e0000000000"
+    );
+  });
+
+  it("laces packets of 255 bytes with a terminating zero segment", () => {
+    const page = readPages(oggPage([packet(255).data, packet(10).data, packet(510).data], 0, 0, 0))[0];
+
+    expect(page.lacing).toEqual([255, 0, 10, 255, 255, 0]);
+    expect(page.body).toHaveLength(775);
+  });
+
+  it("stores the CRC of the page with the CRC field zeroed", () => {
+    const page = oggPage([packet(300).data], 123456, 7, 0);
+    const zeroed = page.slice();
+    zeroed.fill(0, 22, 26);
+
+    expect(readPages(page)[0].crc).toBe(oggCrc(zeroed));
+  });
+
+  it("writes granule positions above 32 bits", () => {
+    const page = readPages(oggPage([packet(1).data], 2 ** 33 + 5, 0, 0))[0];
+
+    expect(page.granule).toBe(2 ** 33 + 5);
+  });
+});
+
+describe("muxOggOpus", () => {
+  it("starts with OpusHead and OpusTags pages", () => {
+    const [head, tags] = readPages(muxOggOpus([packet(40)], 16000));
+
+    expect(head).toMatchObject({ capture: "OggS", headerType: 0x02, granule: 0, sequence: 0 });
+    expect(ascii(head.body.subarray(0, 8))).toBe("OpusHead");
+    const headView = new DataView(head.body.buffer, head.body.byteOffset);
+    // Version 1, mono, 312 samples pre-skip, 16 kHz input
+    expect([headView.getUint8(8), headView.getUint8(9), headView.getUint16(10, true), headView.getUint32(12, true)]).toEqual([1, 1, 312, 16000]);
+
+    expect(tags).toMatchObject({ headerType: 0, granule: 0, sequence: 1 });
+    expect(ascii(tags.body.subarray(0, 8))).toBe("OpusTags");
+    const tagsView = new DataView(tags.body.buffer, tags.body.byteOffset);
+    const vendorLength = tagsView.getUint32(8, true);
+    expect(ascii(tags.body.subarray(12, 12 + vendorLength))).toBe("scene-detective");
+    expect(tagsView.getUint32(12 + vendorLength, true)).toBe(0);
+  });
+
+  it("counts granule positions in 48 kHz samples from the pre-skip, ending on an EOS page", () => {
+    const pages = readPages(muxOggOpus([packet(40), packet(40), packet(40, 480)], 16000));
+
+    expect(pages).toHaveLength(3);
+    expect(pages[2]).toMatchObject({ headerType: 0x04, granule: 312 + 960 + 960 + 480, sequence: 2 });
+    expect(pages[2].lacing).toEqual([40, 40, 40]);
+  });
+
+  it("starts a new page before 255 lacing values, with the granule of the packets it completes", () => {
+    // Two lacing values each, so 127 fit on a page
+    const pages = readPages(muxOggOpus(Array.from({ length: 130 }, () => packet(300)), 16000)).slice(2);
+
+    expect(pages.map(p => p.lacing.length)).toEqual([254, 6]);
+    expect(pages.map(p => p.granule)).toEqual([312 + 127 * 960, 312 + 130 * 960]);
+    expect(pages.map(p => p.headerType)).toEqual([0, 0x04]);
+    expect(pages.map(p => p.sequence)).toEqual([2, 3]);
+  });
+});
+
+describe("trimSilence", () => {
+  // 1 kHz, so one 20 ms window is 20 samples
+  const clip = (length: number, loudFrom: number, loudTo: number) =>
+    Float32Array.from({ length }, (_, i) => (i >= loudFrom && i < loudTo ? 0.5 : 0));
+
+  it("cuts leading and trailing silence, keeping the padding", () => {
+    const samples = clip(1000, 200, 400);
+    const trimmed = trimSilence(samples, 1000, 0.01, 0.05);
+
+    expect(trimmed.byteOffset / 4).toBe(150);
+    expect(trimmed.length).toBe(300);
+  });
+
+  it("clamps the padding to the clip", () => {
+    const trimmed = trimSilence(clip(500, 0, 500), 1000, 0.01, 0.2);
+
+    expect(trimmed.byteOffset / 4).toBe(0);
+    expect(trimmed.length).toBe(500);
+  });
+
+  it("returns an empty clip for silence", () => {
+    expect(trimSilence(clip(1000, 0, 0), 1000, 0.01, 0.1)).toHaveLength(0);
+  });
+});
+
+describe("encodeWAV", () => {
+  it("writes a 16-bit PCM header and clamped samples", () => {
+    const wav = new DataView(encodeWAV([Float32Array.from([0, 1, -1, 2])], 16000));
+
+    expect(ascii(new Uint8Array(wav.buffer, 0, 4))).toBe("RIFF");
+    expect(wav.getUint32(24, true)).toBe(16000);
+    expect(wav.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(i => wav.getInt16(44 + i * 2, true))).toEqual([0, 0x7fff, -0x8000, 0x7fff]);
+  });
+});
+
+describe("encodeAudioClip", () => {
+  // Node has Blob but no FileReader
+  class NodeFileReader {
+    result: string | null = null;
+    onloadend: (() => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+    readAsDataURL(blob: Blob) {
+      blob.arrayBuffer().then(buffer => {
+        this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString("base64")}`;
+        this.onloadend?.();
+      }, error => this.onerror?.(error));
+    }
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal("FileReader", NodeFileReader);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Already at the target rate, so no resampling (and no OfflineAudioContext) is needed
+  const loudSecond = () => ({ sampleRate: 16000, channels: [Float32Array.from({ length: 16000 }, (_, i) => Math.sin(i / 5) * 0.5)] });
+
+  it("falls back to WAV without WebCodecs", async () => {
+    const clip = await encodeAudioClip(loudSecond());
+
+    expect(clip?.mimeType).toBe("audio/wav");
+    expect(clip?.durationSeconds).toBe(1);
+    expect(clip?.offsetSeconds).toBe(0);
+  });
+
+  it("keeps the most recent audio when the clip is over the payload ceiling", async () => {
+    const clip = await encodeAudioClip(loudSecond(), { maxPayloadBytes: 20000 });
+
+    expect(clip!.dataUrl.length).toBeLessThanOrEqual(20000);
+    expect(clip!.durationSeconds).toBeLessThan(1);
+    // Trimmed from the start, so the clip still ends at the pause
+    expect(clip!.offsetSeconds + clip!.durationSeconds).toBeCloseTo(1, 5);
+  });
+
+  it("gives up when nothing fits", async () => {
+    expect(await encodeAudioClip(loudSecond(), { maxPayloadBytes: 40 })).toBeNull();
+  });
+
+  it("returns null for an empty capture", async () => {
+    expect(await encodeAudioClip({ sampleRate: 16000, channels: [new Float32Array(0)] })).toBeNull();
+  });
+});
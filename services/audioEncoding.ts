@@ -0,0 +1,372 @@
+import { RequestOptions } from "../types";
+import { AudioSnapshot } from "./audioCapture";
+import { abortError } from "./errors";
+
+export type AudioFormat = "wav" | "opus";
+
+export interface AudioEncodingOptions {
+  // Speech and most music cues survive 16 kHz mono; it is also what speech models resample to anyway
+  targetSampleRate: number;
+  // Preferred format; "opus" falls back to WAV where the browser has no Opus encoder
+  format: AudioFormat;
+  opusBitrate: number;
+  // RMS level (0..1) below which leading/trailing audio counts as silence
+  silenceThreshold: number;
+  // Silence kept around the trimmed clip so words are not clipped mid-onset
+  silencePaddingSeconds: number;
+  // Ceiling on the base64 data URL sent to the model; older audio is dropped to fit
+  maxPayloadBytes: number;
+}
+
+export interface EncodedAudio {
+  dataUrl: string;
+  mimeType: string;
+  durationSeconds: number;
+  // Where the encoded clip starts within the captured audio, after silence and ceiling trimming
+  offsetSeconds: number;
+}
+
+export const DEFAULT_AUDIO_ENCODING: AudioEncodingOptions = {
+  targetSampleRate: 16000,
+  format: "opus",
+  opusBitrate: 24000,
+  silenceThreshold: 0.01,
+  silencePaddingSeconds: 0.2,
+  maxPayloadBytes: (Number(process.env.AUDIO_MAX_KB) || 256) * 1024,
+};
+
+const SILENCE_WINDOW_SECONDS = 0.02;
+const MAX_FIT_ATTEMPTS = 3;
+// Ogg Opus granule positions are always counted at 48 kHz, whatever the input rate
+const OPUS_GRANULE_RATE = 48000;
+// Encoder lookahead at 48 kHz (libopus default), declared as pre-skip in the Opus header
+const OPUS_PRE_SKIP = 312;
+
+// Average all channels into one
+export const downmix = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+};
+
+// Band-limited resampling via the browser's own resampler
+export const resample = async (samples: Float32Array, fromRate: number, toRate: number): Promise<Float32Array> => {
+  if (fromRate === toRate || samples.length === 0) return samples;
+
+  const length = Math.ceil((samples.length * toRate) / fromRate);
+  const offline = new OfflineAudioContext(1, length, toRate);
+  const buffer = offline.createBuffer(1, samples.length, fromRate);
+  buffer.copyToChannel(samples, 0);
+
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Drop leading/trailing windows quieter than `threshold`; an all-silent clip comes back empty
+export const trimSilence = (
+  samples: Float32Array,
+  sampleRate: number,
+  threshold: number,
+  paddingSeconds: number
+): Float32Array => {
+  const windowSize = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SECONDS));
+  const isLoud = (start: number) => {
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (end - start)) >= threshold;
+  };
+
+  let first = -1;
+  for (let start = 0; start < samples.length; start += windowSize) {
+    if (isLoud(start)) { first = start; break; }
+  }
+  if (first === -1) return new Float32Array(0);
+
+  let last = first;
+  for (let start = samples.length - windowSize; start > first; start -= windowSize) {
+    if (isLoud(Math.max(0, start))) { last = start + windowSize; break; }
+  }
+
+  const padding = Math.round(sampleRate * paddingSeconds);
+  return samples.subarray(Math.max(0, first - padding), Math.min(samples.length, Math.max(last, first + windowSize) + padding));
+};
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+const floatTo16BitPCM = (output: DataView, offset: number, channels: Float32Array[]) => {
+  for (let i = 0; i < channels[0].length; i++) {
+    for (const channel of channels) {
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+};
+
+// Encode PCM channels (interleaved) to a 16-bit WAV
+export const encodeWAV = (channels: Float32Array[], sampleRate: number) => {
+  const channelCount = channels.length;
+  const frames = channels[0].length;
+  const dataLength = frames * channelCount * 2;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  // RIFF identifier
+  writeString(view, 0, "RIFF");
+  // file length
+  view.setUint32(4, 36 + dataLength, true);
+  // RIFF type
+  writeString(view, 8, "WAVE");
+  // format chunk identifier
+  writeString(view, 12, "fmt ");
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, 1, true);
+  // channel count
+  view.setUint16(22, channelCount, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sample rate * block align)
+  view.setUint32(28, sampleRate * channelCount * 2, true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, channelCount * 2, true);
+  // bits per sample
+  view.setUint16(34, 16, true);
+  // data chunk identifier
+  writeString(view, 36, "data");
+  // data chunk length
+  view.setUint32(40, dataLength, true);
+
+  floatTo16BitPCM(view, 44, channels);
+
+  return buffer;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 as Ogg defines it: polynomial 0x04c11db7, no reflection, zero initial value and final XOR
+export const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+const OGG_SERIAL = 0x5d5d0001;
+
+// One Ogg page holding whole packets (each packet must fit in 255 lacing values)
+export const oggPage = (packets: Uint8Array[], granule: number, sequence: number, headerType: number) => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) { lacing.push(255); remaining -= 255; }
+    lacing.push(remaining);
+  }
+
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  writeString(view, 0, "OggS");
+  view.setUint8(5, headerType);
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, OGG_SERIAL, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (sampleRate: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  writeString(view, 0, "OpusHead");
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // channels
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true); // original input rate (informational)
+  view.setInt16(16, 0, true); // output gain
+  view.setUint8(18, 0); // mapping family: mono/stereo
+  return head;
+};
+
+const opusTags = () => {
+  const vendor = "scene-detective";
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  writeString(view, 0, "OpusTags");
+  view.setUint32(8, vendor.length, true);
+  writeString(view, 12, vendor);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+};
+
+const opusConfig = (sampleRate: number, bitrate: number): AudioEncoderConfig => ({
+  codec: "opus",
+  sampleRate,
+  numberOfChannels: 1,
+  bitrate,
+});
+
+const canEncodeOpus = async (config: AudioEncoderConfig) => {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    return (await AudioEncoder.isConfigSupported(config)).supported === true;
+  } catch {
+    return false;
+  }
+};
+
+// Encode mono PCM to Opus with WebCodecs and wrap the packets in an Ogg container
+const encodeOggOpus = async (samples: Float32Array, sampleRate: number, config: AudioEncoderConfig): Promise<Uint8Array> => {
+  const packets: OpusPacket[] = [];
+  let failure: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples48k: Math.round(((chunk.duration ?? 0) * OPUS_GRANULE_RATE) / 1e6) });
+    },
+    error: (error) => { failure = error; },
+  });
+  encoder.configure(config);
+  const frame = new AudioData({
+    format: "f32-planar",
+    sampleRate,
+    numberOfFrames: samples.length,
+    numberOfChannels: 1,
+    timestamp: 0,
+    data: samples,
+  });
+  encoder.encode(frame);
+  frame.close();
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  return muxOggOpus(packets, sampleRate);
+};
+
+export interface OpusPacket {
+  data: Uint8Array;
+  // Duration in 48 kHz samples, which is what granule positions count
+  samples48k: number;
+}
+
+// Header pages, then the packets batched into pages of at most 255 lacing values
+export const muxOggOpus = (packets: OpusPacket[], sampleRate: number): Uint8Array => {
+  const pages = [oggPage([opusHead(sampleRate)], 0, 0, 0x02), oggPage([opusTags()], 0, 1, 0)];
+  let granule = OPUS_PRE_SKIP;
+  let batch: Uint8Array[] = [];
+  let lacingCount = 0;
+
+  const flushBatch = (isLast: boolean) => {
+    pages.push(oggPage(batch, granule, pages.length, isLast ? 0x04 : 0));
+    batch = [];
+    lacingCount = 0;
+  };
+
+  packets.forEach(({ data, samples48k }, i) => {
+    const lacing = Math.floor(data.length / 255) + 1;
+    if (lacingCount + lacing > 255) flushBatch(false);
+    batch.push(data);
+    lacingCount += lacing;
+    granule += samples48k;
+    if (i === packets.length - 1) flushBatch(true);
+  });
+
+  const output = new Uint8Array(pages.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    output.set(page, offset);
+    offset += page.length;
+  }
+  return output;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Downmix, resample, trim silence and encode a captured clip; null when there is nothing worth sending
+// The signal is checked between steps, so a cancelled question doesn't wait out the remaining encodes
+export const encodeAudioClip = async (
+  snapshot: AudioSnapshot,
+  overrides: Partial<AudioEncodingOptions> = {},
+  { signal }: RequestOptions = {}
+): Promise<EncodedAudio | null> => {
+  const options = { ...DEFAULT_AUDIO_ENCODING, ...overrides };
+  const checkpoint = () => {
+    if (signal?.aborted) throw abortError();
+  };
+  checkpoint();
+  if (!snapshot.channels[0]?.length) return null;
+
+  const mono = await resample(downmix(snapshot.channels), snapshot.sampleRate, options.targetSampleRate);
+  checkpoint();
+  let samples = trimSilence(mono, options.targetSampleRate, options.silenceThreshold, options.silencePaddingSeconds);
+
+  const config = opusConfig(options.targetSampleRate, options.opusBitrate);
+  const useOpus = options.format === "opus" && await canEncodeOpus(config);
+
+  for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS && samples.length > 0; attempt++) {
+    checkpoint();
+    const blob = useOpus
+      ? new Blob([await encodeOggOpus(samples, options.targetSampleRate, config)], { type: "audio/ogg" })
+      : new Blob([encodeWAV([samples], options.targetSampleRate)], { type: "audio/wav" });
+    const dataUrl = await blobToDataUrl(blob);
+    checkpoint();
+
+    if (dataUrl.length <= options.maxPayloadBytes) {
+      // `samples` is always a view into `mono`, so its byte offset gives the trimmed start
+      const offsetSamples = (samples.byteOffset - mono.byteOffset) / Float32Array.BYTES_PER_ELEMENT;
+      return {
+        dataUrl,
+        mimeType: blob.type,
+        durationSeconds: samples.length / options.targetSampleRate,
+        offsetSeconds: offsetSamples / options.targetSampleRate,
+      };
+    }
+
+    // Too big: keep the most recent audio (closest to the pause) and try again
+    const keep = Math.floor(samples.length * (options.maxPayloadBytes / dataUrl.length) * 0.95);
+    samples = samples.subarray(samples.length - keep);
+  }
+
+  console.warn(`Audio clip does not fit in ${options.maxPayloadBytes} bytes; sending the question without audio`);
+  return null;
+};
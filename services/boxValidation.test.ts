@@ -0,0 +1,124 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { validateCharacterBoxes, validateProductBoxes, validateSceneSummary } from "./boxValidation";
+
+// Raw response text as the model returned it
+const fixture = (name: string) => readFileSync(new URL(`../fixtures/detection/${name}`, import.meta.url), "utf8");
+
+describe("validateCharacterBoxes", () => {
+  it("passes well-formed boxes through unchanged", () => {
+    const { items, diagnostics } = validateCharacterBoxes(fixture("clean.json"));
+
+    expect(items).toEqual([
+      { name: "Thom", ymin: 120, xmin: 80, ymax: 940, xmax: 410 },
+      { name: "Celia", ymin: 150, xmin: 560, ymax: 960, xmax: 880 },
+    ]);
+    expect(diagnostics).toEqual({ received: 2, clamped: 0, reordered: 0, merged: 0, warnings: [] });
+  });
+
+  it("strips Markdown fences around the JSON", () => {
+    const { items } = validateCharacterBoxes(fixture("fenced.txt"));
+
+    expect(items).toEqual([{ name: "Thom", ymin: 120, xmin: 80, ymax: 940, xmax: 410 }]);
+  });
+
+  it("returns nothing for an empty response", () => {
+    expect(validateCharacterBoxes(undefined).items).toEqual([]);
+    expect(validateCharacterBoxes("").diagnostics.received).toBe(0);
+  });
+
+  it("clamps coordinates to the frame and reorders swapped corners", () => {
+    const { items, diagnostics } = validateCharacterBoxes(fixture("out-of-range.json"));
+
+    expect(items).toEqual([
+      { name: "Thom", ymin: 0, xmin: 80, ymax: 1000, xmax: 410 },
+      { name: "Celia", ymin: 150, xmin: 560, ymax: 960, xmax: 880 },
+    ]);
+    expect(diagnostics.clamped).toBe(1);
+    expect(diagnostics.reordered).toBe(1);
+    // Entirely below the frame: nothing left to draw once clamped
+    expect(diagnostics.warnings).toEqual(['Dropped item 2 ("Bouke"): box has no area inside the frame']);
+  });
+
+  it("merges overlapping boxes that share a name", () => {
+    const { items, diagnostics } = validateCharacterBoxes(fixture("duplicates.json"));
+
+    expect(items).toEqual([
+      { name: "Thom", ymin: 120, xmin: 80, ymax: 940, xmax: 410 },
+      { name: "Thom", ymin: 200, xmin: 700, ymax: 500, xmax: 900 },
+      { name: "Celia", ymin: 150, xmin: 250, ymax: 960, xmax: 600 },
+    ]);
+    expect(diagnostics.merged).toBe(1);
+  });
+
+  it("drops invalid items with one warning each", () => {
+    const { items, diagnostics } = validateCharacterBoxes(fixture("invalid-items.json"));
+
+    expect(items).toEqual([{ name: "Thom", ymin: 120, xmin: 80, ymax: 940, xmax: 410 }]);
+    expect(diagnostics.received).toBe(7);
+    expect(diagnostics.warnings).toEqual([
+      "Dropped item 0: not an object",
+      "Dropped item 1: not an object",
+      "Dropped item 2: missing name",
+      "Dropped item 3: missing name",
+      'Dropped item 4 ("Celia"): ymin is not a number',
+      'Dropped item 5 ("Bouke"): box has no area inside the frame',
+    ]);
+  });
+
+  it("ignores a response that is not an array", () => {
+    const { items, diagnostics } = validateCharacterBoxes(fixture("not-array.json"));
+
+    expect(items).toEqual([]);
+    expect(diagnostics.warnings).toHaveLength(1);
+  });
+
+  it("throws on text that is not JSON", () => {
+    expect(() => validateCharacterBoxes("I can see Thom on the left.")).toThrow(SyntaxError);
+  });
+});
+
+describe("validateProductBoxes", () => {
+  it("normalizes boxes and text fields, keeping matching items apart", () => {
+    const { items, diagnostics } = validateProductBoxes(fixture("products.json"));
+
+    expect(items).toEqual([
+      { category: "Jacket", description: "Olive field jacket with patch pockets", color: "olive green", brand: "", ymin: 300, xmin: 820, ymax: 700, xmax: 1000 },
+      { category: "Sneaker", description: "White leather low-top sneaker", color: "white", brand: "", ymin: 880, xmin: 400, ymax: 990, xmax: 480 },
+      { category: "Sneaker", description: "White leather low-top sneaker", color: "white", brand: "", ymin: 880, xmin: 470, ymax: 990, xmax: 560 },
+    ]);
+    expect(diagnostics).toEqual({
+      received: 4,
+      clamped: 1,
+      reordered: 1,
+      merged: 0,
+      warnings: ['Dropped item 1 ("Boots"): missing category or description'],
+    });
+  });
+});
+
+describe("validateSceneSummary", () => {
+  it("keeps each distinct name once and drops entries that aren't names", () => {
+    const { summary, warnings } = validateSceneSummary(fixture("summary.json"));
+
+    expect(summary).toEqual({ summary: "Thom and Celia argue in the kitchen.", cast: ["Thom", "Celia"] });
+    expect(warnings).toEqual([
+      "Dropped item 3: not a name",
+      "Dropped item 4: not a name",
+      "Dropped item 5: not a name",
+    ]);
+  });
+
+  it("degrades a wrongly shaped response to an empty summary", () => {
+    expect(validateSceneSummary(undefined)).toEqual({ summary: { summary: "", cast: [] }, warnings: [] });
+    expect(validateSceneSummary('["Thom"]').summary).toEqual({ summary: "", cast: [] });
+    expect(validateSceneSummary('{"summary": 3, "cast": "Thom"}').warnings).toEqual([
+      "Summary is not text; leaving it empty",
+      "Cast is not a list; leaving it empty",
+    ]);
+  });
+
+  it("still throws on text that isn't JSON", () => {
+    expect(() => validateSceneSummary("The scene shows Thom.")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,184 @@
+import { BoundingBox, DetectedProduct, DetectionDiagnostics, DetectionResult, FrameRegion, SceneSummary } from "../types";
+
+// Every box the model returns is on this scale, whatever the frame size
+export const BOX_SCALE = 1000;
+
+type Coordinate = keyof FrameRegion;
+
+const COORDINATES: Coordinate[] = ["ymin", "xmin", "ymax", "xmax"];
+
+const emptyDiagnostics = (): DetectionDiagnostics => ({ received: 0, clamped: 0, reordered: 0, merged: 0, warnings: [] });
+
+// Sanitize Markdown fences if present (e.g. ```json ... ```); undefined for an empty response
+const parseJson = (text: string | undefined): unknown => {
+  const cleaned = text?.replace(/```json/g, "").replace(/```/g, "").trim();
+  return cleaned ? JSON.parse(cleaned) : undefined;
+};
+
+// Text that isn't JSON at all still throws, like the bare JSON.parse this replaces; everything else degrades to warnings
+const parseItems = (text: string | undefined, diagnostics: DetectionDiagnostics): unknown[] => {
+  const parsed = parseJson(text);
+  if (parsed === undefined) return [];
+  if (!Array.isArray(parsed)) {
+    diagnostics.warnings.push("Expected a JSON array of detections; ignoring the response");
+    return [];
+  }
+  diagnostics.received = parsed.length;
+  return parsed;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readText = (item: Record<string, unknown>, key: string) => {
+  const value = item[key];
+  return typeof value === "string" ? value.trim() : "";
+};
+
+// The schema asks for integers, but numeric strings still turn up now and then
+const readNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim()) return Number(value);
+  return NaN;
+};
+
+const clampToScale = (value: number) => Math.round(Math.max(0, Math.min(BOX_SCALE, value)));
+
+// The item's box inside the frame with min <= max, or why it can't be drawn
+const readRegion = (item: Record<string, unknown>, diagnostics: DetectionDiagnostics): FrameRegion | string => {
+  const raw = {} as FrameRegion;
+  for (const key of COORDINATES) {
+    const value = readNumber(item[key]);
+    if (!Number.isFinite(value)) return `${key} is not a number`;
+    raw[key] = value;
+  }
+
+  const ya = clampToScale(raw.ymin);
+  const yb = clampToScale(raw.ymax);
+  const xa = clampToScale(raw.xmin);
+  const xb = clampToScale(raw.xmax);
+  const region = { ymin: Math.min(ya, yb), xmin: Math.min(xa, xb), ymax: Math.max(ya, yb), xmax: Math.max(xa, xb) };
+  if (region.ymax === region.ymin || region.xmax === region.xmin) return "box has no area inside the frame";
+
+  if (COORDINATES.some(key => raw[key] < 0 || raw[key] > BOX_SCALE)) diagnostics.clamped++;
+  if (raw.ymin > raw.ymax || raw.xmin > raw.xmax) diagnostics.reordered++;
+  return region;
+};
+
+const describeItem = (index: number, label: string) => `Dropped item ${index}${label ? ` ("${label}")` : ""}`;
+
+const overlaps = (a: FrameRegion, b: FrameRegion) =>
+  a.xmin < b.xmax && b.xmin < a.xmax && a.ymin < b.ymax && b.ymin < a.ymax;
+
+// The same character boxed twice (face and body, or a near-duplicate): keep one box around both.
+// Boxes that don't touch are kept apart, since a mirror or a split screen can show someone twice.
+const mergeSameName = (boxes: BoundingBox[], diagnostics: DetectionDiagnostics) => {
+  const result = [...boxes];
+  let changed = true;
+  // A grown box can reach boxes it missed before, so repeat until nothing merges
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < result.length; i++) {
+      for (let j = i + 1; j < result.length; j++) {
+        const a = result[i];
+        const b = result[j];
+        if (a.name.toLowerCase() !== b.name.toLowerCase() || !overlaps(a, b)) continue;
+        result[i] = {
+          name: a.name,
+          ymin: Math.min(a.ymin, b.ymin),
+          xmin: Math.min(a.xmin, b.xmin),
+          ymax: Math.max(a.ymax, b.ymax),
+          xmax: Math.max(a.xmax, b.xmax),
+        };
+        result.splice(j, 1);
+        diagnostics.merged++;
+        changed = true;
+        j--;
+      }
+    }
+  }
+  return result;
+};
+
+// Raw Identify Cast response text -> boxes that are safe to draw
+export const validateCharacterBoxes = (text: string | undefined): DetectionResult<BoundingBox> => {
+  const diagnostics = emptyDiagnostics();
+  const boxes: BoundingBox[] = [];
+
+  parseItems(text, diagnostics).forEach((item, index) => {
+    if (!isRecord(item)) {
+      diagnostics.warnings.push(`${describeItem(index, "")}: not an object`);
+      return;
+    }
+    const name = readText(item, "name");
+    if (!name) {
+      diagnostics.warnings.push(`${describeItem(index, "")}: missing name`);
+      return;
+    }
+    const region = readRegion(item, diagnostics);
+    if (typeof region === "string") {
+      diagnostics.warnings.push(`${describeItem(index, name)}: ${region}`);
+      return;
+    }
+    boxes.push({ name, ...region });
+  });
+
+  return { items: mergeSameName(boxes, diagnostics), diagnostics };
+};
+
+// Raw Shop the Scene response text -> products that are safe to draw.
+// Not merged: two of the same item (a pair of shoes, matching chairs) are separate hotspots.
+export const validateProductBoxes = (text: string | undefined): DetectionResult<DetectedProduct> => {
+  const diagnostics = emptyDiagnostics();
+  const products: DetectedProduct[] = [];
+
+  parseItems(text, diagnostics).forEach((item, index) => {
+    if (!isRecord(item)) {
+      diagnostics.warnings.push(`${describeItem(index, "")}: not an object`);
+      return;
+    }
+    const category = readText(item, "category");
+    const description = readText(item, "description");
+    if (!category || !description) {
+      diagnostics.warnings.push(`${describeItem(index, category || description)}: missing category or description`);
+      return;
+    }
+    const region = readRegion(item, diagnostics);
+    if (typeof region === "string") {
+      diagnostics.warnings.push(`${describeItem(index, category)}: ${region}`);
+      return;
+    }
+    products.push({ category, description, color: readText(item, "color"), brand: readText(item, "brand"), ...region });
+  });
+
+  return { items: products, diagnostics };
+};
+
+// Raw scene summary response text -> a summary and the distinct character names it lists.
+// The cast feeds chapter search and labels, so anything that isn't a name is dropped with a warning.
+export const validateSceneSummary = (text: string | undefined): { summary: SceneSummary; warnings: string[] } => {
+  const warnings: string[] = [];
+  const parsed = parseJson(text);
+  if (parsed === undefined) return { summary: { summary: "", cast: [] }, warnings };
+  if (!isRecord(parsed)) {
+    warnings.push("Expected a JSON object with a summary and a cast; ignoring the response");
+    return { summary: { summary: "", cast: [] }, warnings };
+  }
+
+  const summary = readText(parsed, "summary");
+  if (parsed.summary !== undefined && typeof parsed.summary !== "string") warnings.push("Summary is not text; leaving it empty");
+
+  const cast: string[] = [];
+  if (parsed.cast !== undefined && !Array.isArray(parsed.cast)) warnings.push("Cast is not a list; leaving it empty");
+  const names: unknown[] = Array.isArray(parsed.cast) ? parsed.cast : [];
+  names.forEach((name, index) => {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    if (!trimmed) {
+      warnings.push(`${describeItem(index, "")}: not a name`);
+      return;
+    }
+    if (!cast.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) cast.push(trimmed);
+  });
+
+  return { summary: { summary, cast }, warnings };
+};
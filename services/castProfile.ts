@@ -0,0 +1,28 @@
+import { formatTimestamp } from "./timeFormat";
+
+// What the profile card shows besides the grounded sources
+export interface CastProfile {
+  // Null until the "Actor:" line has streamed in (or if the model left it out)
+  actor: string | null;
+  // "Role so far" text and anything after it, as Markdown
+  role: string;
+}
+
+// Asked through the regular grounded answer path; the labelled lines let the card split the answer up
+export const buildCastProfileQuery = (name: string, mediaTitle: string | null, timestamp?: number) => {
+  const until = timestamp !== undefined ? `up to ${formatTimestamp(timestamp)} into the video` : "up to this frame";
+  return `Character profile for "${name}"${mediaTitle ? ` in ${mediaTitle}` : ""}. ` +
+    `Start with two labelled lines: "Actor:" followed by the performer's name, then "Role so far:" followed by 2-3 sentences on the character's part in the story ${until}, without spoilers beyond that point. ` +
+    `Then look up the actor's filmography (e.g. IMDb, Wikipedia) so those pages come back as sources.`;
+};
+
+const ACTOR_LINE = /^[\s*_]*actor[\s*_]*:[\s*_]*(.+?)[\s*_]*$/im;
+const ROLE_LABEL = /^[\s*_]*role so far[\s*_]*:[\s*_]*/im;
+
+export const parseCastProfile = (answer: string): CastProfile => {
+  const actorMatch = answer.match(ACTOR_LINE);
+  // Shown as plain text, so drop any emphasis inside the name
+  const actor = actorMatch ? actorMatch[1].replace(/\*\*|__|`/g, "").trim() || null : null;
+  const role = (actorMatch ? answer.replace(actorMatch[0], "") : answer).replace(ROLE_LABEL, "").trim();
+  return { actor, role };
+};
@@ -0,0 +1,45 @@
+import { CastRoster } from "../types";
+
+const STORAGE_PREFIX = "scene-detective:roster:";
+
+// Reference photos are only there to help match faces, so they are kept small
+export const REFERENCE_IMAGE_WIDTH = 192;
+
+// Built-in roster for the demo clip, used until the user saves their own
+const DEFAULT_ROSTERS: Record<string, Omit<CastRoster, "mediaTitle" | "updatedAt">> = {
+  "Tears of Steel (Demo)": {
+    show: "Tears of Steel (Blender Foundation, 2012)",
+    characters: [
+      { name: "Thom", actor: "Derek de Lint" },
+      { name: "Celia", actor: "" },
+      { name: "Bouke", actor: "" },
+    ],
+  },
+};
+
+export const emptyRoster = (mediaTitle: string): CastRoster => ({ mediaTitle, show: "", characters: [], updatedAt: 0 });
+
+// Nothing worth sending to the model
+export const isRosterEmpty = (roster: CastRoster | null | undefined) =>
+  !roster || (!roster.show.trim() && roster.characters.every(c => !c.name.trim()));
+
+export const loadRoster = (mediaTitle: string): CastRoster | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + mediaTitle);
+    if (raw) return JSON.parse(raw) as CastRoster;
+  } catch {
+    // Unreadable entry: fall back to the default below
+  }
+  const fallback = DEFAULT_ROSTERS[mediaTitle];
+  return fallback ? { ...fallback, characters: fallback.characters.map(c => ({ ...c })), mediaTitle, updatedAt: 0 } : null;
+};
+
+export const saveRoster = (roster: CastRoster) => {
+  try {
+    // Saved even when emptied, so clearing the demo roster sticks instead of restoring the default
+    localStorage.setItem(STORAGE_PREFIX + roster.mediaTitle, JSON.stringify(roster));
+  } catch (error) {
+    // Quota exceeded (most likely reference photos): the roster still applies for this session
+    console.warn("Failed to persist cast roster", error);
+  }
+};
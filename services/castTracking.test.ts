@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { BoundingBox } from "../types";
+import { addCastKeyframe, CastKeyframe, interpolateCast } from "./castTracking";
+
+const box = (name: string, xmin: number, ymin = 100): BoundingBox => ({ name, ymin, xmin, ymax: ymin + 400, xmax: xmin + 200 });
+const options = { holdSeconds: 4, maxGapSeconds: 6 };
+
+describe("interpolateCast", () => {
+  const keyframes: CastKeyframe[] = [
+    { timestamp: 10, boxes: [box("Thom", 100), box("Celia", 600)] },
+    { timestamp: 12, boxes: [box("Thom", 300), box("Celia", 500)] },
+  ];
+
+  it("moves boxes linearly between keyframes", () => {
+    expect(interpolateCast(keyframes, 11, options)).toEqual([box("Thom", 200), box("Celia", 550)]);
+    expect(interpolateCast(keyframes, 10.5, options)[0].xmin).toBe(150);
+  });
+
+  it("shows nothing before the first detection", () => {
+    expect(interpolateCast(keyframes, 9, options)).toEqual([]);
+    expect(interpolateCast([], 9, options)).toEqual([]);
+  });
+
+  it("holds the last detection for the hold window, then drops it", () => {
+    expect(interpolateCast(keyframes, 15.9, options)).toEqual(keyframes[1].boxes);
+    expect(interpolateCast(keyframes, 16, options)).toEqual(keyframes[1].boxes);
+    expect(interpolateCast(keyframes, 16.1, options)).toEqual([]);
+  });
+
+  it("does not interpolate across a gap longer than the maximum", () => {
+    const withGap: CastKeyframe[] = [
+      { timestamp: 10, boxes: [box("Thom", 100)] },
+      { timestamp: 30, boxes: [box("Thom", 900)] },
+    ];
+
+    // Held in place inside the hold window, gone after it, until the next detection
+    expect(interpolateCast(withGap, 12, options)).toEqual([box("Thom", 100)]);
+    expect(interpolateCast(withGap, 20, options)).toEqual([]);
+    expect(interpolateCast(withGap, 30, options)).toEqual([box("Thom", 900)]);
+  });
+
+  it("keeps a name at its last position when a detection in between missed it", () => {
+    const missed: CastKeyframe[] = [
+      { timestamp: 10, boxes: [box("Thom", 100), box("Celia", 600)] },
+      { timestamp: 12, boxes: [box("Thom", 300)] },
+      { timestamp: 14, boxes: [box("Thom", 500)] },
+    ];
+
+    expect(interpolateCast(missed, 13, options)).toEqual([box("Thom", 400), box("Celia", 600)]);
+    // The missed name's own hold window (from t=10) still applies
+    expect(interpolateCast(missed, 14.5, options)).toEqual([box("Thom", 500)]);
+  });
+
+  it("does not invent a path for a name that only appears in the next keyframe", () => {
+    const appearing: CastKeyframe[] = [
+      { timestamp: 10, boxes: [box("Thom", 100)] },
+      { timestamp: 12, boxes: [box("Thom", 300), box("Celia", 500)] },
+    ];
+
+    expect(interpolateCast(appearing, 11, options).map(b => b.name)).toEqual(["Thom"]);
+  });
+
+  it("extrapolates past the latest keyframe along the last two, for a bounded time", () => {
+    const extrapolating = { ...options, extrapolateSeconds: 2 };
+
+    expect(interpolateCast(keyframes, 13, extrapolating)).toEqual([box("Thom", 400), box("Celia", 450)]);
+    // Stops moving after the extrapolation window and stays inside the frame
+    expect(interpolateCast(keyframes, 15, extrapolating)).toEqual([box("Thom", 500), box("Celia", 400)]);
+    expect(interpolateCast([keyframes[1], { timestamp: 14, boxes: [box("Thom", 750)] }], 16, extrapolating)[0].xmax).toBe(1000);
+    // Without the option the latest detection is held as before
+    expect(interpolateCast(keyframes, 13, options)).toEqual(keyframes[1].boxes);
+  });
+
+  it("keeps tags moving between detections during forward playback", () => {
+    // Someone walking right at 100 units/s, detected every 2s of media time; each result lands
+    // after its frame was captured, so the playhead is always past the newest keyframe
+    const extrapolating = { ...options, extrapolateSeconds: 2 };
+    let live: CastKeyframe[] = [];
+    const positions: number[] = [];
+    for (let time = 0; time <= 8; time += 0.25) {
+      if (time % 2 === 0) live = addCastKeyframe(live, { timestamp: time, boxes: [box("Thom", 100 + time * 100)] });
+      const [tag] = interpolateCast(live, time + 0.25, extrapolating);
+      if (time >= 2) positions.push(tag.xmin);
+    }
+
+    // After the second detection every render advances, tracking the true position
+    positions.forEach((xmin, i) => {
+      if (i > 0) expect(xmin).toBeGreaterThan(positions[i - 1]);
+    });
+    expect(positions[positions.length - 1]).toBeCloseTo(100 + 8.25 * 100);
+  });
+});
+
+describe("addCastKeyframe", () => {
+  it("keeps keyframes in time order and replaces one at the same moment", () => {
+    let keyframes: CastKeyframe[] = [];
+    keyframes = addCastKeyframe(keyframes, { timestamp: 5, boxes: [] });
+    keyframes = addCastKeyframe(keyframes, { timestamp: 2, boxes: [] });
+    keyframes = addCastKeyframe(keyframes, { timestamp: 5.01, boxes: [box("Thom", 0)] });
+
+    expect(keyframes.map(k => k.timestamp)).toEqual([2, 5.01]);
+  });
+
+  it("caps the history to the most recent keyframes", () => {
+    let keyframes: CastKeyframe[] = [];
+    for (let t = 0; t < 40; t++) keyframes = addCastKeyframe(keyframes, { timestamp: t, boxes: [] });
+
+    expect(keyframes).toHaveLength(30);
+    expect(keyframes[0].timestamp).toBe(10);
+  });
+});
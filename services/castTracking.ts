@@ -0,0 +1,88 @@
+import { BoundingBox } from "../types";
+import { BOX_SCALE } from "./boxValidation";
+
+// A detection result pinned to the media time of the frame it was run on
+export interface CastKeyframe {
+  timestamp: number;
+  boxes: BoundingBox[];
+}
+
+export interface CastTrackingOptions {
+  // Keep a name on screen this long after its last detection (covers missed detections)
+  holdSeconds: number;
+  // Never interpolate across gaps longer than this (e.g. a seek or a scene cut)
+  maxGapSeconds: number;
+  // Past the latest keyframe, keep moving along the last two keyframes' path for at most this long.
+  // During playback the newest detection is always behind the playhead, so without this tags only jump
+  extrapolateSeconds?: number;
+}
+
+const MAX_KEYFRAMES = 30;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const clampToFrame = (value: number) => Math.max(0, Math.min(BOX_SCALE, value));
+
+// t past 1 extrapolates, so results are kept inside the frame
+const lerpBox = (from: BoundingBox, to: BoundingBox, t: number): BoundingBox => ({
+  name: from.name,
+  ymin: clampToFrame(lerp(from.ymin, to.ymin, t)),
+  xmin: clampToFrame(lerp(from.xmin, to.xmin, t)),
+  ymax: clampToFrame(lerp(from.ymax, to.ymax, t)),
+  xmax: clampToFrame(lerp(from.xmax, to.xmax, t)),
+});
+
+// Insert a keyframe in timestamp order, replacing one at the same time and capping history
+export const addCastKeyframe = (keyframes: CastKeyframe[], keyframe: CastKeyframe): CastKeyframe[] => {
+  const next = keyframes
+    .filter(k => Math.abs(k.timestamp - keyframe.timestamp) > 0.05)
+    .concat(keyframe)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return next.slice(Math.max(0, next.length - MAX_KEYFRAMES));
+};
+
+// Resolve where each tracked name should be at `time`, carrying names across keyframes by identity
+export const interpolateCast = (
+  keyframes: CastKeyframe[],
+  time: number,
+  { holdSeconds, maxGapSeconds, extrapolateSeconds = 0 }: CastTrackingOptions
+): BoundingBox[] => {
+  const nextIndex = keyframes.findIndex(k => k.timestamp > time);
+  const prevIndex = nextIndex === -1 ? keyframes.length - 1 : nextIndex - 1;
+  if (prevIndex < 0) return [];
+
+  const prev = keyframes[prevIndex];
+  const next = nextIndex === -1 ? null : keyframes[nextIndex];
+  const canInterpolate = next !== null && next.timestamp - prev.timestamp <= maxGapSeconds;
+  const t = canInterpolate ? (time - prev.timestamp) / (next!.timestamp - prev.timestamp) : 0;
+
+  // Only past the latest keyframe, and only along a path from keyframes close enough to trust
+  const before = next === null && prevIndex > 0 ? keyframes[prevIndex - 1] : null;
+  const canExtrapolate = extrapolateSeconds > 0 && before !== null && prev.timestamp - before.timestamp <= maxGapSeconds;
+  const extrapolateT = canExtrapolate
+    ? 1 + Math.min(time - prev.timestamp, extrapolateSeconds) / (prev.timestamp - before!.timestamp)
+    : 1;
+
+  const result: BoundingBox[] = [];
+  const seen = new Set<string>();
+
+  // Walk back from the latest keyframe so a name missed by one detection is still carried forward
+  for (let i = prevIndex; i >= 0; i--) {
+    const keyframe = keyframes[i];
+    const isInterpolating = canInterpolate && i === prevIndex;
+    if (!isInterpolating && time - keyframe.timestamp > holdSeconds) break;
+
+    for (const box of keyframe.boxes) {
+      if (seen.has(box.name)) continue;
+      seen.add(box.name);
+
+      const target = isInterpolating ? next!.boxes.find(b => b.name === box.name) : undefined;
+      const origin = canExtrapolate && i === prevIndex ? before!.boxes.find(b => b.name === box.name) : undefined;
+      if (target) result.push(lerpBox(box, target, t));
+      else if (origin) result.push(lerpBox(origin, box, extrapolateT));
+      else result.push(box);
+    }
+  }
+
+  return result;
+};
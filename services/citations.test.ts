@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { CITATION_CLOSE, CITATION_OPEN, getCitedSources, insertCitationMarkers } from "./citations";
+
+const bytes = (text: string) => new TextEncoder().encode(text).length;
+// Readable stand-in for the private-use delimiters
+const show = (text: string) => text.replaceAll(CITATION_OPEN, "[").replaceAll(CITATION_CLOSE, "]");
+
+const chunks = [
+  { web: { title: "Store A", uri: "https://a.example" } },
+  { web: { title: "Store B", uri: "https://b.example" } },
+  { web: { title: "Store C", uri: "https://c.example" } },
+];
+
+// A support ending right after `segment` in `text`
+const supportAfter = (text: string, segment: string, groundingChunkIndices: number[]) => ({
+  segment: { endIndex: bytes(text.slice(0, text.indexOf(segment) + segment.length)) },
+  groundingChunkIndices,
+});
+
+describe("getCitedSources", () => {
+  it("keeps web chunks with a title and link, remembering their chunk index", () => {
+    const metadata = { groundingChunks: [chunks[0], { web: { uri: "https://untitled.example" } }, { retrievedContext: {} }, chunks[2]] };
+
+    expect(getCitedSources(metadata)).toEqual([
+      { chunkIndex: 0, title: "Store A", uri: "https://a.example" },
+      { chunkIndex: 3, title: "Store C", uri: "https://c.example" },
+    ]);
+  });
+
+  it("returns nothing without metadata", () => {
+    expect(getCitedSources(undefined)).toEqual([]);
+  });
+});
+
+describe("insertCitationMarkers", () => {
+  it("places markers after ASCII segments", () => {
+    const text = "The jacket is by Acme. It costs $80.";
+    const metadata = {
+      groundingChunks: chunks,
+      groundingSupports: [supportAfter(text, "Acme.", [0]), supportAfter(text, "$80.", [1])],
+    };
+
+    expect(show(insertCitationMarkers(text, metadata))).toBe("The jacket is by Acme.[1] It costs $80.[2]");
+  });
+
+  it("converts UTF-8 byte offsets for accents, emoji and CJK text", () => {
+    const text = "Café crème ☕. Gaming 🎮 night. 東京タワー is nearby.";
+    const metadata = {
+      groundingChunks: chunks,
+      groundingSupports: [
+        supportAfter(text, "☕.", [0]),
+        supportAfter(text, "🎮 night.", [1]),
+        supportAfter(text, "東京タワー", [2]),
+      ],
+    };
+
+    expect(show(insertCitationMarkers(text, metadata))).toBe("Café crème ☕.[1] Gaming 🎮 night.[2] 東京タワー[3] is nearby.");
+  });
+
+  it("handles supports in any order and merges those ending at the same place", () => {
+    const text = "First claim. Second claim.";
+    const metadata = {
+      groundingChunks: chunks,
+      groundingSupports: [
+        supportAfter(text, "Second claim.", [2]),
+        supportAfter(text, "First claim.", [1, 0]),
+        // Overlaps the first one and ends in the same place
+        { segment: { startIndex: 6, endIndex: bytes("First claim.") }, groundingChunkIndices: [2, 0] },
+      ],
+    };
+
+    expect(show(insertCitationMarkers(text, metadata))).toBe("First claim.[1,2,3] Second claim.[3]");
+  });
+
+  it("numbers footnotes by cited source, skipping unusable chunks", () => {
+    const text = "Only claim.";
+    const metadata = {
+      groundingChunks: [{ web: { uri: "https://untitled.example" } }, chunks[1]],
+      groundingSupports: [supportAfter(text, "claim.", [0, 1])],
+    };
+
+    expect(show(insertCitationMarkers(text, metadata))).toBe("Only claim.[1]");
+  });
+
+  it("ignores offsets past the end, inside a character or missing", () => {
+    const text = "Naïve 🎮 answer.";
+    const metadata = {
+      groundingChunks: chunks,
+      groundingSupports: [
+        { segment: { endIndex: bytes(text) + 10 }, groundingChunkIndices: [0] },
+        // Second byte of "ï"
+        { segment: { endIndex: 3 }, groundingChunkIndices: [0] },
+        { segment: {}, groundingChunkIndices: [0] },
+        { segment: { endIndex: -1 }, groundingChunkIndices: [0] },
+        // Points at a chunk that doesn't exist
+        { segment: { endIndex: bytes(text) }, groundingChunkIndices: [7] },
+      ],
+    };
+
+    expect(insertCitationMarkers(text, metadata)).toBe(text);
+  });
+
+  it("moves a marker past closing emphasis", () => {
+    const text = "Made by **Acme**.";
+    const metadata = {
+      groundingChunks: chunks,
+      groundingSupports: [supportAfter(text, "Acme", [0])],
+    };
+
+    expect(show(insertCitationMarkers(text, metadata))).toBe("Made by **Acme**[1].");
+  });
+
+  it("returns the text unchanged without supports", () => {
+    expect(insertCitationMarkers("Plain.", { groundingChunks: chunks })).toBe("Plain.");
+    expect(insertCitationMarkers("Plain.", undefined)).toBe("Plain.");
+  });
+});
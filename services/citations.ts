@@ -0,0 +1,71 @@
+import { GroundingChunk, GroundingMetadata, GroundingSupport } from "@google/genai";
+
+// Footnote-style citations built from Gemini's grounding metadata.
+// `groundingSupports` point at answer segments by UTF-8 byte offset and name the chunks backing them.
+
+export interface CitedSource {
+  // Position in `groundingChunks`, which is what supports refer to
+  chunkIndex: number;
+  title: string;
+  uri: string;
+}
+
+// Private-use characters never appear in model text, so they can delimit markers through Markdown parsing
+export const CITATION_OPEN = "\uE000";
+export const CITATION_CLOSE = "\uE001";
+
+// Web sources with both a link and a title, in chunk order; their 1-based position is the footnote number
+export const getCitedSources = (groundingMetadata: GroundingMetadata | undefined): CitedSource[] =>
+  (groundingMetadata?.groundingChunks ?? [])
+    .map((chunk: GroundingChunk, chunkIndex) => ({ chunkIndex, title: chunk.web?.title, uri: chunk.web?.uri }))
+    .filter(source => source.uri && source.title);
+
+// Map UTF-8 byte offsets to string indices (the answer may contain accents, emoji, dashes...)
+const byteToCharIndex = (text: string) => {
+  const encoder = new TextEncoder();
+  const offsets = new Map<number, number>();
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    offsets.set(bytes, i);
+    const codePoint = text.codePointAt(i)!;
+    const char = String.fromCodePoint(codePoint);
+    bytes += encoder.encode(char).length;
+    if (char.length === 2) i++;
+  }
+  offsets.set(bytes, text.length);
+  return (byteOffset: number) => offsets.get(byteOffset) ?? null;
+};
+
+// Insert CITATION_OPEN + "1,3" + CITATION_CLOSE markers after each supported segment (numbers are footnote numbers, not chunk indices)
+export const insertCitationMarkers = (text: string, groundingMetadata: GroundingMetadata | undefined): string => {
+  const supports: GroundingSupport[] = groundingMetadata?.groundingSupports ?? [];
+  if (supports.length === 0) return text;
+
+  const footnoteOf = new Map(getCitedSources(groundingMetadata).map((source, i) => [source.chunkIndex, i + 1]));
+  const toCharIndex = byteToCharIndex(text);
+
+  // Several supports can end at the same place; merge their footnotes into one marker
+  const markers = new Map<number, Set<number>>();
+  for (const support of supports) {
+    const end = toCharIndex(support.segment?.endIndex ?? -1);
+    if (end === null) continue;
+    const footnotes = (support.groundingChunkIndices ?? [])
+      .map(index => footnoteOf.get(index))
+      .filter((n): n is number => n !== undefined);
+    if (footnotes.length === 0) continue;
+
+    // Keep closing emphasis/code markup together, so the marker lands after "**bold**" rather than inside it
+    let at = end;
+    while (at < text.length && /[*_~`]/.test(text[at])) at++;
+    const set = markers.get(at) ?? new Set<number>();
+    footnotes.forEach(n => set.add(n));
+    markers.set(at, set);
+  }
+
+  let result = text;
+  for (const at of [...markers.keys()].sort((a, b) => b - a)) {
+    const numbers = [...markers.get(at)!].sort((a, b) => a - b).join(",");
+    result = result.slice(0, at) + CITATION_OPEN + numbers + CITATION_CLOSE + result.slice(at);
+  }
+  return result;
+};
@@ -0,0 +1,92 @@
+import { ApiError } from "@google/genai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  abortError,
+  classifyError,
+  InvalidKeyError,
+  MalformedResponseError,
+  NetworkError,
+  OverloadedError,
+  parseRetryAfter,
+  RateLimitError,
+  SafetyBlockError,
+} from "./errors";
+
+// What the SDK throws for a 429: the JSON error body as the message, RetryInfo included
+const quotaMessage = JSON.stringify({
+  error: {
+    code: 429,
+    status: "RESOURCE_EXHAUSTED",
+    details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "17s" }],
+  },
+});
+
+describe("classifyError", () => {
+  it("maps SDK statuses to typed errors", () => {
+    expect(classifyError(new ApiError({ message: quotaMessage, status: 429 }))).toBeInstanceOf(RateLimitError);
+    expect(classifyError(new ApiError({ message: "Unauthorized", status: 401 }))).toBeInstanceOf(InvalidKeyError);
+    expect(classifyError(new ApiError({ message: "PERMISSION_DENIED", status: 403 }))).toBeInstanceOf(InvalidKeyError);
+    expect(classifyError(new ApiError({ message: "Internal", status: 500 }))).toBeInstanceOf(OverloadedError);
+    expect(classifyError(new ApiError({ message: "UNAVAILABLE", status: 503 }))).toBeInstanceOf(OverloadedError);
+    expect(classifyError(new ApiError({ message: "Blocked: PROHIBITED_CONTENT", status: 400 }))).toBeInstanceOf(SafetyBlockError);
+  });
+
+  it("recognizes failures by message when there is no status", () => {
+    expect(classifyError(new Error("API key not valid. Please pass a valid API key."))).toBeInstanceOf(InvalidKeyError);
+    expect(classifyError(new Error("The model is overloaded. Please try again later."))).toBeInstanceOf(OverloadedError);
+    expect(classifyError(new TypeError("Failed to fetch"))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new SyntaxError("Unexpected token < in JSON"))).toBeInstanceOf(MalformedResponseError);
+  });
+
+  it("keeps the original error as the cause and the server hint", () => {
+    const original = new ApiError({ message: quotaMessage, status: 429 });
+    const classified = classifyError(original) as RateLimitError;
+
+    expect(classified.cause).toBe(original);
+    expect(classified.retryable).toBe(true);
+    expect(classified.retryAfterMs).toBe(17000);
+  });
+
+  it("passes aborts, typed errors and unknown failures through unchanged", () => {
+    const abort = abortError();
+    const typed = new SafetyBlockError("blocked");
+    const unknown = new Error("Something else");
+
+    expect(classifyError(abort)).toBe(abort);
+    expect(classifyError(typed)).toBe(typed);
+    expect(classifyError(unknown)).toBe(unknown);
+    expect(classifyError("not an error")).toBe("not an error");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reads a Retry-After header in seconds", () => {
+    expect(parseRetryAfter({ headers: new Headers({ "Retry-After": "30" }) })).toBe(30000);
+    expect(parseRetryAfter({ headers: { "retry-after": "1.5" } })).toBe(1500);
+  });
+
+  it("reads a Retry-After header as an HTTP date", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+
+    expect(parseRetryAfter({ headers: new Headers({ "Retry-After": "Thu, 01 Jan 2026 12:00:45 GMT" }) })).toBe(45000);
+    // Already passed: retry now rather than wait a negative time
+    expect(parseRetryAfter({ headers: new Headers({ "Retry-After": "Thu, 01 Jan 2026 11:00:00 GMT" }) })).toBe(0);
+  });
+
+  it("falls back to the RetryInfo delay in the error body", () => {
+    expect(parseRetryAfter(new Error(quotaMessage))).toBe(17000);
+    expect(parseRetryAfter(new Error("Quota exceeded. Please retry in 2.5s."))).toBe(2500);
+  });
+
+  it("returns undefined when there is no hint", () => {
+    expect(parseRetryAfter(new Error("Internal error"))).toBeUndefined();
+    expect(parseRetryAfter({ headers: new Headers({ "Retry-After": "soon" }) })).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("429")).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+// Failures the app can explain to the viewer and offer a way out of
+
+export type SceneErrorKind =
+  | "rate-limit"
+  | "overloaded"
+  | "network"
+  | "safety-block"
+  | "invalid-key"
+  | "malformed-response";
+
+interface SceneErrorOptions {
+  cause?: unknown;
+  // Server hint for when a retry can succeed (Retry-After header or RetryInfo detail)
+  retryAfterMs?: number;
+}
+
+export abstract class SceneAnalysisError extends Error {
+  abstract readonly kind: SceneErrorKind;
+  // Worth retrying automatically with backoff
+  readonly retryable: boolean = false;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, { cause, retryAfterMs }: SceneErrorOptions = {}) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 429 / RESOURCE_EXHAUSTED: too many requests or out of quota
+export class RateLimitError extends SceneAnalysisError {
+  readonly kind = "rate-limit";
+  readonly retryable = true;
+}
+
+// 5xx / UNAVAILABLE: the model is busy or briefly down
+export class OverloadedError extends SceneAnalysisError {
+  readonly kind = "overloaded";
+  readonly retryable = true;
+}
+
+// The request never got an answer (offline, DNS, dropped connection)
+export class NetworkError extends SceneAnalysisError {
+  readonly kind = "network";
+  readonly retryable = true;
+}
+
+// The prompt or the answer was blocked by the model's safety filters; retrying gives the same result
+export class SafetyBlockError extends SceneAnalysisError {
+  readonly kind = "safety-block";
+}
+
+// Missing, invalid or unauthorized API key
+export class InvalidKeyError extends SceneAnalysisError {
+  readonly kind = "invalid-key";
+}
+
+// An answer arrived but couldn't be used (empty, or not the JSON that was asked for)
+export class MalformedResponseError extends SceneAnalysisError {
+  readonly kind = "malformed-response";
+}
+
+// Same shape as the DOMException fetch throws, so one check covers both
+export const abortError = (message = "Request cancelled") => new DOMException(message, "AbortError");
+
+export const isAbortError = (error: unknown) =>
+  (error instanceof DOMException || error instanceof Error) && error.name === "AbortError";
+
+const SAFETY_REASONS = new Set(["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"]);
+
+interface ResponseWithFeedback {
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string }[];
+}
+
+// Blocked answers come back as a normal response with no text, so they have to be spotted explicitly
+export const assertNotBlocked = (response: ResponseWithFeedback) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Request blocked by safety filters (${blockReason})`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_REASONS.has(finishReason)) {
+    throw new SafetyBlockError(`Answer withheld by safety filters (${finishReason})`);
+  }
+};
+
+// "17s", "1.5s" (RetryInfo duration) or "30" (Retry-After seconds)
+const parseSeconds = (value: string) => {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+};
+
+// The fields SDK, fetch and Node errors (and fetch Responses) may carry
+interface ErrorLike {
+  message?: unknown;
+  status?: unknown;
+  code?: unknown;
+  headers?: unknown;
+}
+
+const asErrorLike = (error: unknown): ErrorLike =>
+  typeof error === "object" && error !== null ? error : {};
+
+// A Headers instance, or the plain object some transports use
+const readHeader = (headers: unknown, name: string): unknown => {
+  if (typeof headers !== "object" || headers === null) return undefined;
+  if ("get" in headers && typeof headers.get === "function") return headers.get(name);
+  return (headers as Record<string, unknown>)[name];
+};
+
+// Retry-After header (when the transport kept it) or the RetryInfo detail in the error body
+export const parseRetryAfter = (error: unknown): number | undefined => {
+  const { headers, message: rawMessage } = asErrorLike(error);
+  const header = readHeader(headers, "retry-after");
+  if (typeof header === "string") {
+    const date = Date.parse(header);
+    const fromHeader = parseSeconds(header) ?? (Number.isNaN(date) ? undefined : Math.max(0, date - Date.now()));
+    if (fromHeader !== undefined) return fromHeader;
+  }
+  const message = String(rawMessage ?? "");
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) ?? message.match(/retry in ([\d.]+)\s*s/i);
+  return retryDelay ? parseSeconds(retryDelay[1]) : undefined;
+};
+
+const NETWORK_MESSAGES = /failed to fetch|networkerror|network request failed|load failed|fetch failed|econnreset|etimedout|enotfound/i;
+
+// Map whatever a provider threw onto the typed errors above; aborts and already-typed errors pass through
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof SceneAnalysisError || isAbortError(error)) return error;
+
+  const { message: rawMessage, status: rawStatus, code } = asErrorLike(error);
+  const message = String(rawMessage ?? "");
+  const status = typeof rawStatus === "number" ? rawStatus : typeof code === "number" ? code : undefined;
+  const options = { cause: error, retryAfterMs: parseRetryAfter(error) };
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new RateLimitError("Rate limit reached", options);
+  }
+  if (status === 401 || /API_KEY_INVALID|API key not valid|API key expired|API key must be set/i.test(message) || (status === 403 && /PERMISSION_DENIED/.test(message))) {
+    return new InvalidKeyError("The API key was rejected", options);
+  }
+  if ((status !== undefined && status >= 500 && status < 600) || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED/i.test(message)) {
+    return new OverloadedError("The model is overloaded", options);
+  }
+  if (status === 400 && /SAFETY|PROHIBITED_CONTENT/.test(message)) {
+    return new SafetyBlockError("Request blocked by safety filters", options);
+  }
+  if (error instanceof SyntaxError) {
+    return new MalformedResponseError("The response was not valid JSON", options);
+  }
+  if (NETWORK_MESSAGES.test(message)) {
+    return new NetworkError("Network request failed", options);
+  }
+  return error;
+};
+
+const ERROR_CLASSES: Record<SceneErrorKind, new (message: string, options?: SceneErrorOptions) => SceneAnalysisError> = {
+  "rate-limit": RateLimitError,
+  "overloaded": OverloadedError,
+  "network": NetworkError,
+  "safety-block": SafetyBlockError,
+  "invalid-key": InvalidKeyError,
+  "malformed-response": MalformedResponseError,
+};
+
+// Rebuild a typed error that crossed a process boundary (e.g. from the API proxy) as just its kind
+export const sceneErrorFromKind = (kind: SceneErrorKind, message: string, options: SceneErrorOptions = {}) =>
+  new ERROR_CLASSES[kind](message, options);
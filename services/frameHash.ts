@@ -0,0 +1,62 @@
+// Perceptual hashing of frames, so visually identical pauses map to the same cache entry
+
+const HASH_COLS = 9;
+const HASH_ROWS = 8;
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode frame for hashing"));
+    img.src = dataUrl;
+  });
+};
+
+// 64-bit difference hash (dHash) as 16 hex chars: robust to JPEG noise and small scaling changes
+export const computeFrameHash = async (dataUrl: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = HASH_COLS;
+  canvas.height = HASH_ROWS;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, HASH_COLS, HASH_ROWS);
+  const { data } = ctx.getImageData(0, 0, HASH_COLS, HASH_ROWS);
+
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_COLS + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hex = "";
+  for (let y = 0; y < HASH_ROWS; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_COLS - 1; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let xor = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Cheap FNV-1a fingerprint for exact-match keys (audio payloads, conversation history)
+export const fingerprint = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0") + value.length.toString(16);
+};
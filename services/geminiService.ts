@@ -1,62 +1,104 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, BoundingBox } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const modelName = "gemini-2.5-flash";
-
-// Helper for delay
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Generic Retry Wrapper for API calls
-async function retryWithBackoff<T>(operation: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    // Check for Rate Limit (429) or Service Overload (503)
-    const isRateLimit = error?.message?.includes('429') || error?.status === 429 || error?.code === 429 || error?.message?.includes('quota');
-    
-    if (retries > 0 && isRateLimit) {
-      console.warn(`Rate limit hit. Retrying in ${delay}ms... (${retries} attempts left)`);
-      await wait(delay);
-      // Exponential backoff: double the delay
-      return retryWithBackoff(operation, retries - 1, delay * 2);
-    }
-    throw error;
-  }
+import { Content, GoogleGenAI, GroundingMetadata, Part, Type } from "@google/genai";
+import { AnalysisRequest, BoundingBox, CastRoster, ConversationTurn, DetectedProduct, DetectionOptions, DetectionResult, FrameRegion, MediaContext, RequestOptions, SceneAnalysisProvider, SceneSummary, SubtitleCue } from "../types";
+import { formatTimestamp } from "./timeFormat";
+import { isRosterEmpty } from "./castRoster";
+import { validateCharacterBoxes, validateProductBoxes, validateSceneSummary } from "./boxValidation";
+import { assertNotBlocked, MalformedResponseError } from "./errors";
+import { retryWithBackoff } from "./retry";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
 }
 
-export const analyzeFrameWithQuery = async (base64Image: string, query: string, audioData?: string | null): Promise<AnalysisResult> => {
-  return retryWithBackoff(async () => {
-    try {
-      const cleanBase64Image = base64Image.replace(/^data:image\/\w+;base64,/, "");
-      
-      const parts: any[] = [
-        {
-          inlineData: {
-            data: cleanBase64Image,
-            mimeType: "image/jpeg", 
-          },
-        }
-      ];
+// Split "data:audio/ogg;codecs=opus;base64,...." into its bare mime type and payload
+const parseDataUrl = (dataUrl: string, fallbackMimeType: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)[^,]*;base64,/);
+  return match
+    ? { mimeType: match[1], data: dataUrl.slice(match[0].length) }
+    : { mimeType: fallbackMimeType, data: dataUrl };
+};
 
-      // If we have audio context (last ~10 seconds), add it to the prompt
-      if (audioData) {
-        const cleanBase64Audio = audioData.replace(/^data:audio\/\w+;base64,/, "");
-        parts.push({
-          inlineData: {
-            data: cleanBase64Audio,
-            mimeType: "audio/wav",
-          }
-        });
-      }
+// Subtitle lines as "[0:42] text", with the ones after the pause marked as upcoming
+const formatSubtitleContext = (subtitles: SubtitleCue[], timestamp?: number) =>
+  subtitles
+    .map(cue => `[${formatTimestamp(cue.start)}]${timestamp !== undefined && cue.start > timestamp ? " (after pause)" : ""} ${cue.text.replace(/\n/g, " ")}`)
+    .join("\n");
 
-      // Add the text query
-      parts.push({
-        text: `User Query: "${query}"
-        
+// One line on what is playing and where, e.g. 'Watching "S01E03" (Stranger Things, Season 1, Episode 3), a video paused at 12:04 of 48:10.'
+const formatMediaContext = (media?: MediaContext) => {
+  if (!media) return "";
+  const episode = [media.season && `Season ${media.season}`, media.episode && `Episode ${media.episode}`].filter(Boolean);
+  const show = [media.show?.trim(), ...episode].filter(Boolean).join(", ");
+  const position = media.mediaType === "image"
+    ? "a still image"
+    : `a video${media.currentTime !== undefined ? ` paused at ${formatTimestamp(media.currentTime)}` : ""}${media.duration ? ` of ${formatTimestamp(media.duration)}` : ""}`;
+  return `Watching "${media.title}"${show ? ` (${show})` : ""}, ${position}.`;
+};
+
+// One segment of a transcription response, as far as it can be used
+const isTranscribedCue = (value: unknown): value is SubtitleCue =>
+  typeof value === "object" && value !== null &&
+  "text" in value && typeof value.text === "string" && value.text.trim() !== "" &&
+  "start" in value && Number.isFinite(value.start) &&
+  "end" in value && Number.isFinite(value.end);
+
+// Reference photos cost tokens on every request, so only the first few are sent
+const MAX_REFERENCE_IMAGES = 6;
+
+const charactersWithPhotos = (roster?: CastRoster | null) =>
+  (roster?.characters ?? []).filter(c => c.name.trim() && c.referenceImage).slice(0, MAX_REFERENCE_IMAGES);
+
+// The user's cast list as prompt lines; reference photos are attached separately as labelled images
+const formatRosterContext = (roster?: CastRoster | null) => {
+  if (!roster || isRosterEmpty(roster)) return "";
+  const episode = [roster.season && `Season ${roster.season}`, roster.episode && `Episode ${roster.episode}`].filter(Boolean).join(", ");
+  const title = roster.show.trim() ? `Title: ${roster.show.trim()}${episode ? ` (${episode})` : ""}` : "";
+  const withPhoto = new Set(charactersWithPhotos(roster));
+  const cast = roster.characters
+    .filter(c => c.name.trim())
+    .map(c => `- ${c.name.trim()}${c.actor.trim() ? ` (played by ${c.actor.trim()})` : ""}${withPhoto.has(c) ? " [reference photo attached]" : ""}`);
+  return [title, cast.length > 0 ? `Cast:\n${cast.join("\n")}` : ""].filter(Boolean).join("\n");
+};
+
+const rosterImageParts = (roster?: CastRoster | null): Part[] =>
+  charactersWithPhotos(roster).flatMap(c => {
+    const image = parseDataUrl(c.referenceImage!, "image/jpeg");
+    return [{ text: `Reference photo of ${c.name.trim()}:` }, { inlineData: { data: image.data, mimeType: image.mimeType } }];
+  });
+
+// Instructions sent with the opening question of a thread (alongside the frame/audio)
+const buildQueryPrompt = (
+  query: string,
+  hasAudio: boolean,
+  contextFrameCount: number,
+  subtitleContext: string,
+  transcriptContext: string,
+  rosterContext: string,
+  mediaContext: string,
+  region?: FrameRegion
+) => `User Query: "${query}"
+        ${mediaContext ? `
+        Playback context: ${mediaContext} Use what is known about the plot up to this point when it helps, without spoiling later events.
+        ` : ''}        ${rosterContext ? `
+        Cast list supplied by the user for this title (treat it as ground truth for who is who, and match faces against any reference photos):
+        ${rosterContext}
+        ` : ''}        ${region ? `
+        Region of interest: the user drew a box on the paused frame at [ymin ${region.ymin}, xmin ${region.xmin}, ymax ${region.ymax}, xmax ${region.xmax}] (0-1000 scale). A close-up crop of that box follows the full frame.
+        The question is about what is INSIDE that box; words like "this", "that" or "it" refer to it. Use the rest of the frame only as context.
+        ` : ''}        ${subtitleContext ? `
+        Subtitles around the paused moment (from the video's subtitle file):
+        ${subtitleContext}
+        ` : ''}${transcriptContext ? `
+        Auto-generated transcript around the paused moment (machine transcription, may contain errors):
+        ${transcriptContext}
+        ` : ''}
         Instructions:
-        1. Analyze the provided image ${audioData ? 'AND the accompanying audio clip (last 10 seconds)' : ''} to answer the user's query.
+        1. Analyze the provided image ${hasAudio ? 'AND the accompanying audio clip (last 10 seconds)' : ''} to answer the user's query.
+        ${contextFrameCount > 0 ? `- The paused frame is preceded by ${contextFrameCount} earlier frame(s) from the last few seconds, in chronological order and labelled with their timestamps. Use them to reason about motion and events leading up to the pause (e.g. "what did she just pick up?"). The LAST image is the paused frame the user is looking at.` : ''}
         
         2. **Determine User Intent**:
            - **SHOPPING** (e.g. "Where to buy", "get this jacket", "price", "shop"):
@@ -76,91 +118,344 @@ export const analyzeFrameWithQuery = async (base64Image: string, query: string,
            - Identify songs, background scores, dialogue, or sound effects.
            - If asked about music, provide the Song Name, Artist, and Album if identifiable.
            - **STRICT RULE**: Do NOT suggest using external apps (like Shazam). YOU are the analyzer.
+           - If subtitles are provided, treat them as the exact dialogue and quote lines verbatim when the question is about what was said.
+           - An auto-generated transcript is a best-effort guide to the dialogue; prefer what you hear in the audio clip if they disagree.
         
         4. **Conciseness & Formatting**: 
            - Keep the text answer under 150 words.
            - Use Markdown (e.g., **bold** for key names).
            - Provide the direct answer in the text. The search tool will handle the links.
         
-        5. **Context**: Recognize movie props vs real items.`,
-      });
-
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: { parts },
-        config: {
-          tools: [{ googleSearch: {} }], 
+        5. **Context**: Recognize movie props vs real items.`;
+
+// Follow-ups reuse the frame/audio from the opening turn, which is resent as history
+const buildFollowUpPrompt = (query: string) => `Follow-up Query: "${query}"
+
+        Instructions:
+        1. This is a follow-up about the SAME frame (and audio clip and selected region, if provided) from earlier in this conversation.
+        2. Resolve references like "that jacket" or "he" using the previous questions and answers.
+        3. Apply the same rules as before: use search grounding for shopping or informational intent, keep the answer under 150 words, and use Markdown.`;
+
+// Gemini-backed provider; the client is created per provider instead of at import time
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): SceneAnalysisProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const analyzeFrameWithQuery = async (
+    { imageData: base64Image, query, audioData, media, recentFrames = [], subtitles = [], transcript = [], region, regionImageData, roster, history = [], signal }: AnalysisRequest,
+    onText?: (partialAnswer: string) => void
+  ): Promise<ConversationTurn> => {
+    return retryWithBackoff(async () => {
+      try {
+        const cleanBase64Image = base64Image.replace(/^data:image\/\w+;base64,/, "");
+        const timestamp = media?.currentTime;
+      
+        // Earlier frames go first, each labelled with its timestamp, so the sequence reads in order
+        const mediaParts: Part[] = recentFrames.flatMap((frame): Part[] => [
+          { text: `Frame at ${frame.timestamp.toFixed(1)}s:` },
+          {
+            inlineData: {
+              data: frame.imageData.replace(/^data:image\/\w+;base64,/, ""),
+              mimeType: "image/jpeg",
+            },
+          },
+        ]);
+
+        if (recentFrames.length > 0) {
+          mediaParts.push({ text: timestamp !== undefined ? `Paused frame at ${timestamp.toFixed(1)}s:` : "Paused frame:" });
+        }
+        mediaParts.push({
+          inlineData: {
+            data: cleanBase64Image,
+            mimeType: "image/jpeg", 
+          },
+        });
+
+        if (region && regionImageData) {
+          mediaParts.push(
+            { text: "Close-up of the selected region:" },
+            { inlineData: { data: regionImageData.replace(/^data:image\/\w+;base64,/, ""), mimeType: "image/jpeg" } }
+          );
+        }
+
+        // If we have audio context (last ~10 seconds), add it to the prompt
+        if (audioData) {
+          const audio = parseDataUrl(audioData, "audio/wav");
+          mediaParts.push({
+            inlineData: {
+              data: audio.data,
+              mimeType: audio.mimeType,
+            }
+          });
+        }
+
+        mediaParts.push(...rosterImageParts(roster));
+
+        const subtitleContext = formatSubtitleContext(subtitles, timestamp);
+        const transcriptContext = formatSubtitleContext(transcript, timestamp);
+
+        // Replay the thread: the media is attached once, to the opening question
+        const userTurn = (turnQuery: string, isOpening: boolean): Content => ({
+          role: "user",
+          parts: isOpening
+            ? [...mediaParts, { text: buildQueryPrompt(turnQuery, !!audioData, recentFrames.length, subtitleContext, transcriptContext, formatRosterContext(roster), formatMediaContext(media), region) }]
+            : [{ text: buildFollowUpPrompt(turnQuery) }],
+        });
+
+        const contents: Content[] = [];
+        history.forEach((turn, i) => {
+          contents.push(userTurn(turn.query, i === 0));
+          contents.push({ role: "model", parts: [{ text: turn.answer }] });
+        });
+        contents.push(userTurn(query, history.length === 0));
+
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents,
+          config: {
+            tools: [{ googleSearch: {} }],
+            abortSignal: signal,
+          }
+        });
+
+        // Accumulate the answer as it streams in; grounding arrives with the final chunk(s)
+        let text = "";
+        let groundingMetadata: GroundingMetadata | undefined;
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) {
+            text += chunk.text;
+            onText?.(text);
+          }
+          groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
         }
-      });
 
-      const text = response.text;
-      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+        if (!text) {
+          throw new MalformedResponseError("No response text received from Gemini");
+        }
 
-      if (!text) {
-        throw new Error("No response text received from Gemini");
+        return { query, answer: text, groundingMetadata };
+      } catch (error) {
+        console.error("Gemini API Error:", error);
+        throw error;
       }
+    }, { signal });
+  };
 
-      return { answer: text, groundingMetadata };
-    } catch (error) {
-      console.error("Gemini API Error:", error);
-      throw error;
-    }
-  });
-};
+  const detectCharactersInFrame = async (base64Image: string, { roster, media, signal }: DetectionOptions = {}): Promise<DetectionResult<BoundingBox>> => {
+    return retryWithBackoff(async () => {
+      try {
+        const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
+        const rosterContext = formatRosterContext(roster);
+        const mediaContext = formatMediaContext(media);
 
-export const detectCharactersInFrame = async (base64Image: string): Promise<BoundingBox[]> => {
-  return retryWithBackoff(async () => {
-    try {
-      const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
-
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: cleanBase64,
-                mimeType: "image/jpeg",
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  data: cleanBase64,
+                  mimeType: "image/jpeg",
+                },
+              },
+              {
+                text: "You are an expert in pop culture, movies, anime, and TV shows. Analyze this image frame and identify the specific names of the MAIN characters present. \n\nRules:\n1. Identify specific names (e.g. 'Tony Stark', 'Luffy', 'Walter White').\n2. Do NOT use generic labels like 'man', 'woman', 'police officer'.\n3. If you don't know the exact character name, do NOT return a bounding box for them.\n4. Return their names and bounding boxes using a 0-1000 scale." +
+                  (mediaContext ? `\n\n${mediaContext} Use it to narrow down who can appear at this point in the story.` : "") +
+                  (rosterContext
+                    ? `\n\nThe user supplied this cast list for the footage. Use these exact character names, and match faces against the reference photos attached after these instructions:\n${rosterContext}`
+                    : ""),
+              },
+              ...rosterImageParts(roster),
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            temperature: 0, // CRITICAL: Set to 0 for deterministic, consistent results
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING, description: "The specific character name (e.g. 'Iron Man')." },
+                  ymin: { type: Type.INTEGER },
+                  xmin: { type: Type.INTEGER },
+                  ymax: { type: Type.INTEGER },
+                  xmax: { type: Type.INTEGER },
+                },
+                required: ["name", "ymin", "xmin", "ymax", "xmax"],
               },
             },
-            {
-              text: "You are an expert in pop culture, movies, anime, and TV shows. Analyze this image frame and identify the specific names of the MAIN characters present. \n\nRules:\n1. Identify specific names (e.g. 'Tony Stark', 'Luffy', 'Walter White').\n2. For the demo video 'Tears of Steel', identify characters like 'Thom', 'Celia', or 'Bouke'.\n3. Do NOT use generic labels like 'man', 'woman', 'police officer'.\n4. If you don't know the exact character name, do NOT return a bounding box for them.\n5. Return their names and bounding boxes using a 0-1000 scale.",
+          },
+        });
+
+        assertNotBlocked(response);
+        const result = validateCharacterBoxes(response.text);
+        result.diagnostics.warnings.forEach(warning => console.warn("Gemini Detection:", warning));
+        return result;
+      } catch (error) {
+        console.error("Gemini Detection Error:", error);
+        throw error;
+      }
+    }, { signal });
+  };
+
+  const detectProductsInFrame = async (base64Image: string, { signal }: DetectionOptions = {}): Promise<DetectionResult<DetectedProduct>> => {
+    return retryWithBackoff(async () => {
+      try {
+        const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
+
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  data: cleanBase64,
+                  mimeType: "image/jpeg",
+                },
+              },
+              {
+                text: "You are a fashion and product stylist. Find the items in this video frame that a viewer could realistically buy: clothing, shoes, accessories, bags, eyewear, furniture, gadgets, vehicles and props.\n\nRules:\n1. Only include clearly visible items (at most 8), most prominent first.\n2. Describe each item precisely enough to search for it in a shop (cut, material, style), in 3-8 words.\n3. Give the dominant color in plain words (e.g. 'olive green').\n4. Estimate the brand only if a logo or a distinctive design makes it likely; otherwise return an empty string.\n5. Return a tight bounding box around each item using a 0-1000 scale.",
+              },
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            temperature: 0,
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  category: { type: Type.STRING, description: "Short product category (e.g. 'Jacket', 'Sunglasses', 'Armchair')." },
+                  description: { type: Type.STRING, description: "Shop-searchable description of the item." },
+                  color: { type: Type.STRING },
+                  brand: { type: Type.STRING, description: "Estimated brand, or an empty string if unknown." },
+                  ymin: { type: Type.INTEGER },
+                  xmin: { type: Type.INTEGER },
+                  ymax: { type: Type.INTEGER },
+                  xmax: { type: Type.INTEGER },
+                },
+                required: ["category", "description", "color", "brand", "ymin", "xmin", "ymax", "xmax"],
+              },
             },
-          ],
-        },
-        config: {
-          temperature: 0, // CRITICAL: Set to 0 for deterministic, consistent results
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
+          },
+        });
+
+        assertNotBlocked(response);
+        const result = validateProductBoxes(response.text);
+        result.diagnostics.warnings.forEach(warning => console.warn("Gemini Product Detection:", warning));
+        return result;
+      } catch (error) {
+        console.error("Gemini Product Detection Error:", error);
+        throw error;
+      }
+    }, { signal });
+  };
+
+  const summarizeScene = async (base64Image: string, { signal }: RequestOptions = {}): Promise<SceneSummary> => {
+    return retryWithBackoff(async () => {
+      try {
+        const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
+
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  data: cleanBase64,
+                  mimeType: "image/jpeg",
+                },
+              },
+              {
+                text: "This is a keyframe representing one scene of a video. Write a one-sentence summary (max 20 words) of what happens or is shown in the scene, and list the names of the main characters visible. Use specific character names if you know them; otherwise return an empty cast list rather than generic labels.",
+              },
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            temperature: 0,
+            responseMimeType: "application/json",
+            responseSchema: {
               type: Type.OBJECT,
               properties: {
-                name: { type: Type.STRING, description: "The specific character name (e.g. 'Iron Man')." },
-                ymin: { type: Type.INTEGER },
-                xmin: { type: Type.INTEGER },
-                ymax: { type: Type.INTEGER },
-                xmax: { type: Type.INTEGER },
+                summary: { type: Type.STRING },
+                cast: { type: Type.ARRAY, items: { type: Type.STRING } },
               },
-              required: ["name", "ymin", "xmin", "ymax", "xmax"],
+              required: ["summary", "cast"],
             },
           },
-        },
-      });
+        });
 
-      let text = response.text;
-      if (!text) {
-        return [];
+        assertNotBlocked(response);
+        const { summary, warnings } = validateSceneSummary(response.text);
+        warnings.forEach(warning => console.warn("Gemini Scene Summary:", warning));
+        return summary;
+      } catch (error) {
+        console.error("Gemini Scene Summary Error:", error);
+        throw error;
       }
+    }, { signal });
+  };
 
-      // Sanitize Markdown fences if present (e.g. ```json ... ```)
-      text = text.replace(/```json/g, "").replace(/```/g, "").trim();
+  const transcribeAudio = async (audioData: string, { signal }: RequestOptions = {}): Promise<SubtitleCue[]> => {
+    return retryWithBackoff(async () => {
+      try {
+        const audio = parseDataUrl(audioData, "audio/wav");
 
-      const boxes = JSON.parse(text) as BoundingBox[];
-      return boxes;
-    } catch (error) {
-      console.error("Gemini Detection Error:", error);
-      throw error;
-    }
-  });
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  data: audio.data,
+                  mimeType: audio.mimeType,
+                },
+              },
+              {
+                text: "Transcribe the spoken dialogue in this audio clip as caption segments of at most two short lines each. Give each segment's start and end time in seconds from the beginning of the clip. Ignore music and sound effects. If nobody speaks, return an empty list.",
+              },
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            temperature: 0,
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER },
+                  end: { type: Type.NUMBER },
+                  text: { type: Type.STRING },
+                },
+                required: ["start", "end", "text"],
+              },
+            },
+          },
+        });
+
+        assertNotBlocked(response);
+        const text = response.text?.replace(/```json/g, "").replace(/```/g, "").trim();
+        if (!text) {
+          return [];
+        }
+
+        const parsed: unknown = JSON.parse(text);
+        return (Array.isArray(parsed) ? parsed : [])
+          .filter(isTranscribedCue)
+          .map(cue => ({ start: cue.start, end: Math.max(cue.end, cue.start + 0.5), text: cue.text.trim() }));
+      } catch (error) {
+        console.error("Gemini Transcription Error:", error);
+        throw error;
+      }
+    }, { signal });
+  };
+
+  return { name: "gemini", analyzeFrameWithQuery, detectCharactersInFrame, detectProductsInFrame, summarizeScene, transcribeAudio };
 };
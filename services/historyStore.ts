@@ -0,0 +1,48 @@
+import { HistoryEntry } from "../types";
+import { requestToPromise, STORES, withStore } from "./idb";
+
+const THUMBNAIL_WIDTH = 320;
+
+// Downscale a frame for storage; the full-size snapshot is too heavy to keep per question
+export const createThumbnail = (dataUrl: string, width = THUMBNAIL_WIDTH): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, width / img.naturalWidth);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    img.onerror = () => reject(new Error("Could not decode frame for thumbnail"));
+    img.src = dataUrl;
+  });
+};
+
+export const addHistoryEntry = (entry: Omit<HistoryEntry, "id">): Promise<number> => {
+  return withStore(STORES.history, "readwrite", async (store) =>
+    Number(await requestToPromise(store.add(entry)))
+  );
+};
+
+// Newest first
+export const listHistory = (mediaTitle: string): Promise<HistoryEntry[]> => {
+  return withStore(STORES.history, "readonly", async (store) => {
+    const entries = await requestToPromise<HistoryEntry[]>(store.index("mediaTitle").getAll(mediaTitle));
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  });
+};
+
+export const deleteHistoryEntry = (id: number): Promise<void> => {
+  return withStore(STORES.history, "readwrite", async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+};
+
+export const clearHistory = (mediaTitle: string): Promise<void> => {
+  return withStore(STORES.history, "readwrite", async (store) => {
+    const keys = await requestToPromise(store.index("mediaTitle").getAllKeys(mediaTitle));
+    await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+  });
+};
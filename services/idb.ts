@@ -0,0 +1,63 @@
+// Minimal promise wrapper around the app's IndexedDB database
+
+const DB_NAME = "scene-detective";
+const DB_VERSION = 2;
+
+export const STORES = {
+  responses: "responses",
+  history: "history",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Bump DB_VERSION when adding a store; upgrades only create what is missing
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.responses)) {
+    const store = db.createObjectStore(STORES.responses, { keyPath: "id", autoIncrement: true });
+    store.createIndex("lookup", ["kind", "queryKey", "audioKey"]);
+    store.createIndex("lastUsedAt", "lastUsedAt");
+  }
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    const store = db.createObjectStore(STORES.history, { keyPath: "id", autoIncrement: true });
+    store.createIndex("mediaTitle", "mediaTitle");
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run `fn` inside a transaction and resolve with its result once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+};
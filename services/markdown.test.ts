@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { isSafeHref, parseInline, parseMarkdown } from "./markdown";
+
+describe("isSafeHref", () => {
+  it("accepts http and https links", () => {
+    expect(isSafeHref("https://example.com/jacket")).toBe(true);
+    expect(isSafeHref("http://example.com")).toBe(true);
+    expect(isSafeHref("HTTPS://EXAMPLE.COM")).toBe(true);
+    expect(isSafeHref("  https://example.com  ")).toBe(true);
+  });
+
+  it("rejects script and data URLs in any case or padding", () => {
+    expect(isSafeHref("javascript:alert(1)")).toBe(false);
+    expect(isSafeHref("JaVaScRiPt:alert(1)")).toBe(false);
+    expect(isSafeHref("  javascript:alert(1)")).toBe(false);
+    expect(isSafeHref("\tjavascript:alert(1)")).toBe(false);
+    expect(isSafeHref("java\nscript:alert(1)")).toBe(false);
+    expect(isSafeHref("data:text/html;base64,PHNjcmlwdD4=")).toBe(false);
+    expect(isSafeHref("DATA:text/html,<script>")).toBe(false);
+    expect(isSafeHref("vbscript:msgbox(1)")).toBe(false);
+  });
+
+  it("rejects relative, protocol-relative and look-alike URLs", () => {
+    expect(isSafeHref("/relative/path")).toBe(false);
+    expect(isSafeHref("//evil.example")).toBe(false);
+    expect(isSafeHref("https:evil.example")).toBe(false);
+    expect(isSafeHref("xhttps://example.com")).toBe(false);
+  });
+});
+
+describe("parseInline", () => {
+  it("keeps unsafe Markdown links as their plain text", () => {
+    expect(parseInline("[click me](javascript:alert(1))")).toEqual([
+      { type: "text", text: "click me" },
+      { type: "text", text: ")" },
+    ]);
+    expect(parseInline("[payload](data:text/html,hi)")).toEqual([{ type: "text", text: "payload" }]);
+  });
+
+  it("leaves HTML as text for the renderer to escape", () => {
+    expect(parseInline('<img src=x onerror="alert(1)">')).toEqual([{ type: "text", text: '<img src=x onerror="alert(1)">' }]);
+  });
+
+  it("parses links with formatted text and bold around links", () => {
+    expect(parseInline("[**Buy** it](https://shop.example/item)")).toEqual([
+      { type: "link", href: "https://shop.example/item", children: [{ type: "strong", children: [{ type: "text", text: "Buy" }] }, { type: "text", text: " it" }] },
+    ]);
+    expect(parseInline("**see [the store](https://shop.example)**")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "see " },
+          { type: "link", href: "https://shop.example", children: [{ type: "text", text: "the store" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("nests emphasis inside bold", () => {
+    expect(parseInline("**Vecna *makeup* process**")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "Vecna " },
+          { type: "em", children: [{ type: "text", text: "makeup" }] },
+          { type: "text", text: " process" },
+        ],
+      },
+    ]);
+  });
+
+  it("turns bare URLs into links without trailing punctuation", () => {
+    expect(parseInline("See https://example.com/a.")).toEqual([
+      { type: "text", text: "See " },
+      { type: "link", href: "https://example.com/a", children: [{ type: "text", text: "https://example.com/a" }] },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("shows unterminated emphasis as typed while the answer streams in", () => {
+    expect(parseInline("The **Leather jack")).toEqual([{ type: "text", text: "The **Leather jack" }]);
+    expect(parseInline("a *half")).toEqual([{ type: "text", text: "a *half" }]);
+    expect(parseInline("[Buy it](https://shop.exa")).toEqual([
+      { type: "text", text: "[Buy it](" },
+      { type: "link", href: "https://shop.exa", children: [{ type: "text", text: "https://shop.exa" }] },
+    ]);
+  });
+
+  it("does not treat underscores inside words as emphasis", () => {
+    expect(parseInline("snake_case_name")).toEqual([{ type: "text", text: "snake_case_name" }]);
+  });
+
+  it("keeps code spans literal", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses headings of every level and strips closing hashes", () => {
+    expect(parseMarkdown("# Title\n### Section ###")).toEqual([
+      { type: "heading", level: 1, children: [{ type: "text", text: "Title" }] },
+      { type: "heading", level: 3, children: [{ type: "text", text: "Section" }] },
+    ]);
+  });
+
+  it("parses ordered and unordered lists with nesting", () => {
+    expect(parseMarkdown("3. First\n4. Second\n   - detail\n\n- Other")).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [
+          { content: [{ type: "text", text: "First" }], children: [] },
+          {
+            content: [{ type: "text", text: "Second" }],
+            children: [{ type: "list", ordered: false, start: 1, items: [{ content: [{ type: "text", text: "detail" }], children: [] }] }],
+          },
+        ],
+      },
+      { type: "list", ordered: false, start: 1, items: [{ content: [{ type: "text", text: "Other" }], children: [] }] },
+    ]);
+  });
+
+  it("keeps line breaks inside a paragraph and splits paragraphs on blank lines", () => {
+    expect(parseMarkdown("one\r\ntwo\n\nthree")).toEqual([
+      { type: "paragraph", children: [{ type: "text", text: "one" }, { type: "break" }, { type: "text", text: "two" }] },
+      { type: "paragraph", children: [{ type: "text", text: "three" }] },
+    ]);
+  });
+
+  it("runs an unterminated code fence to the end of the text", () => {
+    expect(parseMarkdown("```js\nconst a = 1;")).toEqual([{ type: "code", language: "js", text: "const a = 1;" }]);
+  });
+
+  it("parses tables with alignment", () => {
+    expect(parseMarkdown("| Item | Price |\n|:--|--:|\n| Jacket | $80 |")).toEqual([
+      {
+        type: "table",
+        align: ["left", "right"],
+        header: [[{ type: "text", text: "Item" }], [{ type: "text", text: "Price" }]],
+        rows: [[[{ type: "text", text: "Jacket" }], [{ type: "text", text: "$80" }]]],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+import { CITATION_CLOSE, CITATION_OPEN } from "./citations";
+
+// Small Markdown parser for model answers. It produces a plain data tree (never HTML strings),
+// so renderers decide how each node becomes markup and untrusted text can't inject any.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  // Only http(s) links survive parsing; anything else is kept as plain text
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "break" }
+  // Footnote numbers from insertCitationMarkers
+  | { type: "citation"; sources: number[] };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export interface ListItem {
+  content: InlineNode[];
+  // Nested lists under this item
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: InlineNode[] }
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | { type: "code"; language: string; text: string }
+  | { type: "table"; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "rule" };
+
+export const isSafeHref = (href: string) => /^https?:\/\//i.test(href.trim());
+
+// Inline syntax, tried left to right; the earliest match in the text wins
+const INLINE_PATTERNS: { pattern: RegExp; build: (match: RegExpExecArray) => InlineNode }[] = [
+  { pattern: new RegExp(`${CITATION_OPEN}([\\d,]+)${CITATION_CLOSE}`), build: m => ({ type: "citation", sources: m[1].split(",").map(Number) }) },
+  { pattern: /`([^`\n]+)`/, build: m => ({ type: "code", text: m[1] }) },
+  {
+    pattern: /\[([^\]\n]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    build: m => isSafeHref(m[2])
+      ? { type: "link", href: m[2], children: parseInline(m[1]) }
+      : { type: "text", text: m[1] },
+  },
+  { pattern: /https?:\/\/[^\s<>()[\]\uE000]*[^\s<>()[\].,;:!?'"*_\uE000]/, build: m => ({ type: "link", href: m[0], children: [{ type: "text", text: m[0] }] }) },
+  { pattern: /\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__/, build: m => ({ type: "strong", children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(?=\S)([\s\S]+?)~~/, build: m => ({ type: "del", children: parseInline(m[1]) }) },
+  { pattern: /\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<![\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\w])/, build: m => ({ type: "em", children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /\n/, build: () => ({ type: "break" }) },
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    let best: { index: number; length: number; node: InlineNode } | null = null;
+    for (const { pattern, build } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!best || match.index < best.index)) {
+        best = { index: match.index, length: match[0].length, node: build(match) };
+      }
+    }
+
+    if (!best) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+    if (best.index > 0) nodes.push({ type: "text", text: rest.slice(0, best.index) });
+    nodes.push(best.node);
+    rest = rest.slice(best.index + best.length);
+  }
+
+  return nodes;
+};
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, "").replace(/\|$/, "").split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+
+const isBlockStart = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) ||
+  (line.includes("|") && next !== undefined && TABLE_DIVIDER.test(next) && next.includes("-"));
+
+// Consume a list starting at lines[start]; items indented deeper than the first one become nested lists
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+    if (!line.trim()) {
+      // A blank line only continues the list if the next line is another item at this level or deeper
+      const following = lines[i + 1]?.match(LIST_ITEM);
+      if (following && indentOf(following[1]) >= baseIndent) { i++; continue; }
+      break;
+    }
+
+    if (item && indentOf(item[1]) === baseIndent && /\d/.test(item[2]) === ordered) {
+      items.push({ content: parseInline(item[3]), children: [] });
+      i++;
+    } else if (item && indentOf(item[1]) > baseIndent && items.length > 0) {
+      const nested = parseList(lines, i);
+      items[items.length - 1].children.push(nested.block);
+      i = nested.next;
+    } else if (!item && indentOf(line) > baseIndent && items.length > 0) {
+      // Continuation line of the previous item
+      const current = items[items.length - 1];
+      current.content = [...current.content, { type: "break" }, ...parseInline(line.trim())];
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  return { block: { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      // An unterminated fence (e.g. mid-stream) runs to the end of the text
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", language: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: "quote", children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes("-")) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(":") && cell.endsWith(":") ? "center" : cell.endsWith(":") ? "right" : cell.startsWith(":") ? "left" : null
+      );
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? "")));
+      }
+      blocks.push({ type: "table", align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    // Paragraph: consecutive plain lines, with line breaks kept
+    const body = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i], lines[i + 1])) body.push(lines[i++].trim());
+    blocks.push({ type: "paragraph", children: parseInline(body.join("\n")) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,83 @@
+import { AnalysisRequest, BoundingBox, ConversationTurn, DetectedProduct, DetectionOptions, DetectionResult, RequestOptions, SceneAnalysisProvider, SceneSummary, SubtitleCue } from "../types";
+import { waitFor } from "./retry";
+import answers from "../fixtures/mock/answers.json";
+import grounding from "../fixtures/mock/grounding.json";
+import characters from "../fixtures/mock/characters.json";
+import products from "../fixtures/mock/products.json";
+import scenes from "../fixtures/mock/scenes.json";
+import transcripts from "../fixtures/mock/transcript.json";
+
+export interface MockProviderOptions {
+  // Simulated network latency before the first token / detection result
+  latencyMs?: number;
+}
+
+interface MockAnswer {
+  id: string;
+  keywords: string[];
+  answer: string;
+  grounding: keyof typeof grounding;
+}
+
+// Pick the first fixture whose keywords appear in the query; the keyword-less entry is the fallback
+const pickAnswer = (query: string): MockAnswer => {
+  const normalized = query.toLowerCase();
+  const fixtures = answers as MockAnswer[];
+  return fixtures.find(f => f.keywords.some(k => normalized.includes(k)))
+    ?? fixtures.find(f => f.keywords.length === 0)!;
+};
+
+// Fixtures are already valid, so nothing was dropped or adjusted
+const cleanResult = <T>(items: T[]): DetectionResult<T> => ({
+  items,
+  diagnostics: { received: items.length, clamped: 0, reordered: 0, merged: 0, warnings: [] },
+});
+
+// Deterministic offline provider backed by fixture files, for demos and UI work without an API key
+export const createMockProvider = ({ latencyMs = 600 }: MockProviderOptions = {}): SceneAnalysisProvider => {
+  const analyzeFrameWithQuery = async (
+    { query, signal }: AnalysisRequest,
+    onText?: (partialAnswer: string) => void
+  ): Promise<ConversationTurn> => {
+    const fixture = pickAnswer(query);
+    await waitFor(latencyMs, signal);
+
+    // Stream word by word so the progressive rendering path is exercised too
+    if (onText) {
+      const words = fixture.answer.split(/(\s+)/);
+      let text = "";
+      for (const word of words) {
+        text += word;
+        onText(text);
+        await waitFor(15, signal);
+      }
+    }
+
+    return { query, answer: fixture.answer, groundingMetadata: grounding[fixture.grounding] };
+  };
+
+  const detectCharactersInFrame = async (_base64Image: string, { signal }: DetectionOptions = {}): Promise<DetectionResult<BoundingBox>> => {
+    await waitFor(latencyMs, signal);
+    return cleanResult(characters.map(box => ({ ...box })));
+  };
+
+  const detectProductsInFrame = async (_base64Image: string, { signal }: DetectionOptions = {}): Promise<DetectionResult<DetectedProduct>> => {
+    await waitFor(latencyMs, signal);
+    return cleanResult(products.map(product => ({ ...product })));
+  };
+
+  // Same keyframe always maps to the same canned summary
+  const summarizeScene = async (base64Image: string, { signal }: RequestOptions = {}): Promise<SceneSummary> => {
+    await waitFor(latencyMs / 4, signal);
+    const scene = scenes[base64Image.length % scenes.length];
+    return { summary: scene.summary, cast: [...scene.cast] };
+  };
+
+  // Rotates through canned dialogue (including a silent chunk) keyed off the clip size
+  const transcribeAudio = async (audioData: string, { signal }: RequestOptions = {}): Promise<SubtitleCue[]> => {
+    await waitFor(latencyMs, signal);
+    return transcripts[audioData.length % transcripts.length].map(cue => ({ ...cue }));
+  };
+
+  return { name: "mock", analyzeFrameWithQuery, detectCharactersInFrame, detectProductsInFrame, summarizeScene, transcribeAudio };
+};
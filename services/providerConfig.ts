@@ -0,0 +1,44 @@
+import { SceneAnalysisProvider } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+export type ProviderKind = 'gemini' | 'proxy' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey?: string;
+  model: string;
+  proxyUrl: string;
+}
+
+// Resolve the provider from build-time env, overridable per page load with ?provider=mock
+export const readProviderConfig = (): ProviderConfig => {
+  const override = new URLSearchParams(window.location.search).get('provider');
+  const configured = override || process.env.SCENE_PROVIDER;
+  const apiKey = process.env.API_KEY || undefined;
+
+  // The build only carries a key in direct 'gemini' mode (see vite.config.ts); otherwise the
+  // proxy holds it, and without either the offline mock is all that can work
+  const kind: ProviderKind = configured === 'mock' || configured === 'gemini' || configured === 'proxy'
+    ? configured
+    : (apiKey ? 'gemini' : 'mock');
+
+  return {
+    kind,
+    apiKey,
+    model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    proxyUrl: process.env.PROXY_URL || '/api',
+  };
+};
+
+export const createSceneAnalysisProvider = (config: ProviderConfig): SceneAnalysisProvider => {
+  switch (config.kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+    case 'proxy':
+      return createProxyProvider({ baseUrl: config.proxyUrl });
+  }
+};
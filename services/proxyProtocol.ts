@@ -0,0 +1,49 @@
+import { ConversationTurn } from "../types";
+import { classifyError, SceneAnalysisError, SceneErrorKind, sceneErrorFromKind } from "./errors";
+
+// Wire format shared by the API proxy (server/index.ts) and its client (proxyProvider.ts)
+
+export const PROXY_ROUTES = {
+  analyze: "/analyze",
+  identify: "/identify",
+  products: "/products",
+  summarize: "/summarize",
+  transcribe: "/transcribe",
+} as const;
+
+export interface ProxyErrorBody {
+  // Missing for failures the proxy couldn't classify
+  kind?: SceneErrorKind;
+  message: string;
+  retryAfterMs?: number;
+}
+
+// One line of the /analyze NDJSON stream
+export type AnalyzeStreamEvent =
+  | { type: "text"; delta: string }
+  // The upstream call was retried and the answer started over: replaces everything received so far
+  | { type: "restart"; text: string }
+  | { type: "done"; turn: ConversationTurn }
+  | { type: "error"; error: ProxyErrorBody };
+
+export const STATUS_BY_KIND: Record<SceneErrorKind, number> = {
+  "rate-limit": 429,
+  "overloaded": 503,
+  "network": 502,
+  "safety-block": 422,
+  "invalid-key": 502,
+  "malformed-response": 502,
+};
+
+export const toErrorBody = (error: unknown): ProxyErrorBody => {
+  const classified = classifyError(error);
+  return classified instanceof SceneAnalysisError
+    ? { kind: classified.kind, message: classified.message, retryAfterMs: classified.retryAfterMs }
+    : { message: "The request failed upstream" };
+};
+
+// Typed again on the client, so the app shows the same message and recovery action as in direct mode
+export const fromErrorBody = (body: ProxyErrorBody, status?: number): unknown =>
+  body.kind
+    ? sceneErrorFromKind(body.kind, body.message, { retryAfterMs: body.retryAfterMs })
+    : classifyError(Object.assign(new Error(body.message), { status }));
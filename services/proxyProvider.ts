@@ -0,0 +1,114 @@
+import { AnalysisRequest, BoundingBox, ConversationTurn, DetectedProduct, DetectionOptions, DetectionResult, RequestOptions, SceneAnalysisProvider, SceneSummary, SubtitleCue } from "../types";
+import { classifyError, MalformedResponseError, parseRetryAfter } from "./errors";
+import { AnalyzeStreamEvent, fromErrorBody, PROXY_ROUTES, ProxyErrorBody } from "./proxyProtocol";
+
+export interface ProxyProviderOptions {
+  // Where server/index.ts is reachable; "/api" goes through the Vite dev proxy
+  baseUrl: string;
+}
+
+// The proxy's error body, or a stand-in built from the status line when it didn't send one
+const readError = async (response: Response): Promise<unknown> => {
+  let body: ProxyErrorBody = { message: `Proxy responded ${response.status} ${response.statusText}` };
+  try {
+    const parsed = await response.json();
+    if (parsed?.error?.message) body = parsed.error;
+  } catch {
+    // Not JSON (e.g. a gateway error page): keep the status line
+  }
+  body.retryAfterMs ??= parseRetryAfter(response);
+  return fromErrorBody(body, response.status);
+};
+
+// Newline-delimited JSON, one event per line, as it arrives
+async function* readEvents(response: Response): AsyncGenerator<AnalyzeStreamEvent> {
+  if (!response.body) throw new MalformedResponseError("The proxy sent no answer stream");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as AnalyzeStreamEvent;
+    }
+  }
+}
+
+// Talks to the API proxy instead of Gemini, so the API key stays on the server
+export const createProxyProvider = ({ baseUrl }: ProxyProviderOptions): SceneAnalysisProvider => {
+  // The proxy already retries upstream with backoff, so failures here are only classified, not retried
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+    if (!response.ok) throw await readError(response);
+    return response;
+  };
+
+  const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await post(path, body, signal);
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  };
+
+  const analyzeFrameWithQuery = async (
+    request: AnalysisRequest,
+    onText?: (partialAnswer: string) => void
+  ): Promise<ConversationTurn> => {
+    // The signal stays here and the cache flag means nothing to the server
+    const { signal, fresh: _fresh, ...body } = request;
+    const response = await post(PROXY_ROUTES.analyze, body, signal);
+
+    let text = "";
+    try {
+      for await (const event of readEvents(response)) {
+        switch (event.type) {
+          case "text":
+            text += event.delta;
+            onText?.(text);
+            break;
+          case "restart":
+            text = event.text;
+            onText?.(text);
+            break;
+          case "done":
+            return event.turn;
+          case "error":
+            throw fromErrorBody(event.error);
+        }
+      }
+    } catch (error) {
+      throw classifyError(error);
+    }
+    throw new MalformedResponseError("The answer stream ended before the answer was complete");
+  };
+
+  const detectCharactersInFrame = (base64Image: string, { media, roster, signal }: DetectionOptions = {}) =>
+    postJson<DetectionResult<BoundingBox>>(PROXY_ROUTES.identify, { imageData: base64Image, media, roster }, signal);
+
+  const detectProductsInFrame = (base64Image: string, { media, signal }: DetectionOptions = {}) =>
+    postJson<DetectionResult<DetectedProduct>>(PROXY_ROUTES.products, { imageData: base64Image, media }, signal);
+
+  const summarizeScene = (base64Image: string, { signal }: RequestOptions = {}) =>
+    postJson<SceneSummary>(PROXY_ROUTES.summarize, { imageData: base64Image }, signal);
+
+  const transcribeAudio = (audioData: string, { signal }: RequestOptions = {}) =>
+    postJson<SubtitleCue[]>(PROXY_ROUTES.transcribe, { audioData }, signal);
+
+  return { name: "proxy", analyzeFrameWithQuery, detectCharactersInFrame, detectProductsInFrame, summarizeScene, transcribeAudio };
+};
@@ -0,0 +1,217 @@
+import { AnalysisRequest, BoundingBox, CastRoster, ConversationTurn, DetectedProduct, DetectionOptions, DetectionResult, MediaContext, SceneAnalysisProvider, SubtitleCue, TimedFrame } from "../types";
+import { computeFrameHash, fingerprint, hammingDistance } from "./frameHash";
+import { requestToPromise, STORES, withStore } from "./idb";
+import { isRosterEmpty } from "./castRoster";
+
+export interface ResponseCacheOptions {
+  // Entries older than this are ignored and pruned
+  ttlMs: number;
+  maxEntries: number;
+  // Approximate cap on stored payload size (JSON characters)
+  maxBytes: number;
+  // dHash bits that may differ for two frames to count as the same picture
+  maxHashDistance: number;
+}
+
+// Detections are stored with their diagnostics; the older "cast" and "products" entries held bare arrays
+// and are left to age out
+type CacheKind = "answer" | "castResult" | "productResult";
+
+interface CacheEntry {
+  id?: number;
+  kind: CacheKind;
+  queryKey: string;
+  audioKey: string;
+  frameHash: string;
+  value: unknown;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+const DEFAULT_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 200,
+  maxBytes: 5 * 1024 * 1024,
+  maxHashDistance: 4,
+};
+
+// "Where can I buy this jacket?" and "where can i buy this jacket" share an entry
+export const normalizeQuery = (query: string) =>
+  query.toLowerCase().replace(/\s+/g, " ").replace(/[?!.\s]+$/, "").trim();
+
+// Editing the cast roster changes what the model is told, so it is part of the key
+const rosterKey = (roster?: CastRoster | null) =>
+  roster && !isRosterEmpty(roster)
+    ? `~${fingerprint(JSON.stringify([roster.show, roster.season, roster.episode, roster.characters]))}`
+    : "";
+
+// The prompt names the title, episode and position, so the same picture in another context is another question
+const mediaKey = (media?: MediaContext) =>
+  media
+    ? `^${fingerprint(JSON.stringify([media.title, media.show, media.season, media.episode, media.mediaType, media.currentTime !== undefined ? Math.floor(media.currentTime) : null]))}`
+    : "";
+
+// Only the lines inside the prompt window count; attaching subtitles changes the answer to a dialogue question
+const cuesKey = (marker: string, cues?: SubtitleCue[]) =>
+  cues?.length ? `${marker}${fingerprint(cues.map(c => `${c.start.toFixed(1)} ${c.text}`).join("\n"))}` : "";
+
+// Perceptual hashes, like the paused frame's, so re-pausing the same moment still hits
+const recentFramesKey = async (frames?: TimedFrame[]) => {
+  if (!frames?.length) return "";
+  const hashes = await Promise.all(frames.map(frame => computeFrameHash(frame.imageData)));
+  return `+${fingerprint(hashes.join(""))}`;
+};
+
+const findEntry = async (
+  kind: CacheKind,
+  queryKey: string,
+  audioKey: string,
+  frameHash: string,
+  options: ResponseCacheOptions
+): Promise<CacheEntry | null> => {
+  return withStore(STORES.responses, "readwrite", async (store) => {
+    const candidates = await requestToPromise<CacheEntry[]>(
+      store.index("lookup").getAll([kind, queryKey, audioKey])
+    );
+    const now = Date.now();
+
+    let best: CacheEntry | null = null;
+    let bestDistance = Infinity;
+    for (const entry of candidates) {
+      if (now - entry.createdAt > options.ttlMs) continue;
+      const distance = hammingDistance(entry.frameHash, frameHash);
+      if (distance <= options.maxHashDistance && distance < bestDistance) {
+        best = entry;
+        bestDistance = distance;
+      }
+    }
+
+    if (best) {
+      best.lastUsedAt = now;
+      await requestToPromise(store.put(best));
+    }
+    return best;
+  });
+};
+
+// Store an entry, then evict expired and least-recently-used entries until within limits
+const putEntry = async (entry: CacheEntry, options: ResponseCacheOptions) => {
+  await withStore(STORES.responses, "readwrite", async (store) => {
+    await requestToPromise(store.add(entry));
+
+    const entries = await requestToPromise<CacheEntry[]>(store.index("lastUsedAt").getAll());
+    const now = Date.now();
+    let count = entries.length;
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+
+    // Oldest first, thanks to the index order
+    for (const e of entries) {
+      const expired = now - e.createdAt > options.ttlMs;
+      if (!expired && count <= options.maxEntries && bytes <= options.maxBytes) continue;
+      await requestToPromise(store.delete(e.id!));
+      count--;
+      bytes -= e.size;
+    }
+  });
+};
+
+// Wraps a provider so repeated questions about the same picture reuse the earlier (paid) answer
+export const createCachedProvider = (
+  provider: SceneAnalysisProvider,
+  overrides: Partial<ResponseCacheOptions> = {}
+): SceneAnalysisProvider => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+
+  // Cache failures (IndexedDB unavailable, undecodable frame) must never block a real answer
+  const safely = async <T>(operation: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await operation();
+    } catch (error) {
+      console.warn("Response cache unavailable", error);
+      return null;
+    }
+  };
+
+  const store = (kind: CacheKind, queryKey: string, audioKey: string, frameHash: string, value: unknown) => {
+    const now = Date.now();
+    const size = JSON.stringify(value).length;
+    return safely(() => putEntry({ kind, queryKey, audioKey, frameHash, value, size, createdAt: now, lastUsedAt: now }, options));
+  };
+
+  const analyzeFrameWithQuery = async (
+    request: AnalysisRequest,
+    onText?: (partialAnswer: string) => void
+  ): Promise<ConversationTurn> => {
+    const frameHash = await safely(() => computeFrameHash(request.imageData));
+    if (!frameHash) {
+      return provider.analyzeFrameWithQuery(request, onText);
+    }
+
+    // Follow-ups depend on the thread so far, so the history is part of the key
+    const historyKey = (request.history ?? []).map(t => `${normalizeQuery(t.query)}\n${t.answer}`).join("\n");
+    // A question about a drawn region is a different question from the same words about the whole frame
+    const regionKey = request.region ? `@${request.region.ymin},${request.region.xmin},${request.region.ymax},${request.region.xmax}` : "";
+    const framesKey = await safely(() => recentFramesKey(request.recentFrames));
+    if (framesKey === null) {
+      return provider.analyzeFrameWithQuery(request, onText);
+    }
+    const queryKey = normalizeQuery(request.query) + regionKey + rosterKey(request.roster) + mediaKey(request.media)
+      + cuesKey("$", request.subtitles) + cuesKey("%", request.transcript) + framesKey
+      + (historyKey ? `#${fingerprint(historyKey)}` : "");
+    const audioKey = request.audioData ? fingerprint(request.audioData) : "";
+
+    if (!request.fresh) {
+      const hit = await safely(() => findEntry("answer", queryKey, audioKey, frameHash, options));
+      if (hit) {
+        const cached = hit.value as Pick<ConversationTurn, "answer" | "groundingMetadata">;
+        onText?.(cached.answer);
+        return { query: request.query, ...cached, fromCache: true };
+      }
+    }
+
+    const turn = await provider.analyzeFrameWithQuery(request, onText);
+    await store("answer", queryKey, audioKey, frameHash, { answer: turn.answer, groundingMetadata: turn.groundingMetadata });
+    return turn;
+  };
+
+  const detectCharactersInFrame = async (base64Image: string, detection: DetectionOptions = {}): Promise<DetectionResult<BoundingBox>> => {
+    const frameHash = await safely(() => computeFrameHash(base64Image));
+    if (!frameHash) {
+      return provider.detectCharactersInFrame(base64Image, detection);
+    }
+
+    const castKey = rosterKey(detection.roster) + mediaKey(detection.media);
+    if (!detection.fresh) {
+      const hit = await safely(() => findEntry("castResult", castKey, "", frameHash, options));
+      if (hit) return hit.value as DetectionResult<BoundingBox>;
+    }
+
+    const result = await provider.detectCharactersInFrame(base64Image, detection);
+    await store("castResult", castKey, "", frameHash, result);
+    return result;
+  };
+
+  const detectProductsInFrame = async (base64Image: string, detection: DetectionOptions = {}): Promise<DetectionResult<DetectedProduct>> => {
+    const frameHash = await safely(() => computeFrameHash(base64Image));
+    if (!frameHash) {
+      return provider.detectProductsInFrame(base64Image, detection);
+    }
+
+    if (!detection.fresh) {
+      const hit = await safely(() => findEntry("productResult", "", "", frameHash, options));
+      if (hit) return hit.value as DetectionResult<DetectedProduct>;
+    }
+
+    const result = await provider.detectProductsInFrame(base64Image, detection);
+    await store("productResult", "", "", frameHash, result);
+    return result;
+  };
+
+  return {
+    ...provider,
+    analyzeFrameWithQuery,
+    detectCharactersInFrame,
+    detectProductsInFrame,
+  };
+};
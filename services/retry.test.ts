@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InvalidKeyError, isAbortError, OverloadedError, RateLimitError } from "./errors";
+import { retryWithBackoff, waitFor } from "./retry";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// Resolves with the outcome instead of rejecting, so fake timers can run before anything is awaited
+const settle = <T>(promise: Promise<T>) =>
+  promise.then(value => ({ value, error: undefined as unknown }), (error: unknown) => ({ value: undefined, error }));
+
+describe("waitFor", () => {
+  it("resolves after the delay", async () => {
+    const done = vi.fn();
+    waitFor(1000).then(done);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("rejects with an AbortError as soon as the signal fires", async () => {
+    const controller = new AbortController();
+    const outcome = settle(waitFor(60000, controller.signal));
+
+    controller.abort();
+    const { error } = await outcome;
+    expect(isAbortError(error)).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("rejects right away for an already aborted signal", async () => {
+    const { error } = await settle(waitFor(1000, AbortSignal.abort()));
+
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe("retryWithBackoff", () => {
+  it("retries retryable failures and returns the eventual result", async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new OverloadedError("busy"))
+      .mockRejectedValueOnce(new OverloadedError("busy"))
+      .mockResolvedValue("answer");
+
+    const outcome = settle(retryWithBackoff(operation));
+    await vi.runAllTimersAsync();
+
+    expect(await outcome).toEqual({ value: "answer", error: undefined });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("uses exponential delays jittered within the upper half of each step", async () => {
+    const delays: number[] = [];
+    const realSetTimeout = globalThis.setTimeout;
+    vi.spyOn(globalThis, "setTimeout").mockImplementation(((handler: () => void, ms?: number) => {
+      delays.push(ms ?? 0);
+      return realSetTimeout(handler, 0);
+    }) as typeof setTimeout);
+    // Lowest, then highest point of each jitter range
+    vi.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(0).mockReturnValue(1);
+    const operation = vi.fn().mockRejectedValue(new OverloadedError("busy"));
+
+    const outcome = settle(retryWithBackoff(operation, { retries: 3, baseDelayMs: 100 }));
+    await vi.runAllTimersAsync();
+
+    expect((await outcome).error).toBeInstanceOf(OverloadedError);
+    expect(delays).toEqual([50, 100, 400]);
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it("treats the server hint as the minimum wait", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RateLimitError("slow down", { retryAfterMs: 5000 }))
+      .mockResolvedValue("answer");
+
+    const outcome = settle(retryWithBackoff(operation, { baseDelayMs: 100 }));
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await outcome).toEqual({ value: "answer", error: undefined });
+  });
+
+  it("gives up without waiting when the hint exceeds the maximum delay", async () => {
+    const limited = new RateLimitError("quota", { retryAfterMs: 60000 });
+    const operation = vi.fn().mockRejectedValue(limited);
+
+    const { error } = await settle(retryWithBackoff(operation, { maxDelayMs: 30000 }));
+
+    expect(error).toBe(limited);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry failures that would fail the same way again", async () => {
+    const operation = vi.fn().mockRejectedValue(new InvalidKeyError("bad key"));
+
+    const { error } = await settle(retryWithBackoff(operation));
+
+    expect(error).toBeInstanceOf(InvalidKeyError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("classifies raw failures before deciding", async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error("Too Many Requests"), { status: 429 }))
+      .mockResolvedValue("answer");
+
+    const outcome = settle(retryWithBackoff(operation));
+    await vi.runAllTimersAsync();
+
+    expect((await outcome).value).toBe("answer");
+  });
+
+  it("stops a pending backoff when cancelled", async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new OverloadedError("busy"));
+
+    const outcome = settle(retryWithBackoff(operation, { signal: controller.signal }));
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(isAbortError((await outcome).error)).toBe(true);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { abortError, classifyError, SceneAnalysisError } from "./errors";
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  // First backoff step; doubles on every attempt
+  baseDelayMs?: number;
+  // Server hints longer than this aren't waited out; the error goes to the viewer instead
+  maxDelayMs?: number;
+}
+
+// setTimeout that rejects as soon as the signal fires, so a cancel doesn't sit out the backoff
+export const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Exponential backoff, jittered between half and all of each step so clients that failed together don't retry together;
+// a server hint (Retry-After / RetryInfo) is treated as the minimum wait
+const backoffDelay = (attempt: number, baseDelayMs: number, retryAfterMs?: number) => {
+  const exponential = baseDelayMs * 2 ** attempt;
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return retryAfterMs !== undefined ? retryAfterMs + Math.random() * baseDelayMs / 2 : jittered;
+};
+
+// Runs the operation, retrying rate limits, overloads and network failures; anything thrown is a classified error
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  { signal, retries = 3, baseDelayMs = 2000, maxDelayMs = 30000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await operation();
+    } catch (error) {
+      // A cancelled request surfaces as whatever the transport threw; report it as the abort it is
+      if (signal?.aborted) throw abortError();
+
+      const classified = classifyError(error);
+      if (!(classified instanceof SceneAnalysisError) || !classified.retryable || attempt >= retries) {
+        throw classified;
+      }
+      const delay = backoffDelay(attempt, baseDelayMs, classified.retryAfterMs);
+      if (delay > maxDelayMs) throw classified;
+
+      console.warn(`${classified.message}. Retrying in ${Math.round(delay)}ms... (${retries - attempt} attempts left)`);
+      await waitFor(delay, signal);
+    }
+  }
+};
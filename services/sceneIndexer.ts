@@ -0,0 +1,176 @@
+import { SceneChapter, SceneIndex, SceneSummary } from "../types";
+import { abortError } from "./errors";
+
+export interface SceneScanOptions {
+  // Called with 0..1 as the scan progresses (cut detection, then summaries)
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Frame differencing runs on tiny grayscale frames; a cut is a jump in mean luminance difference
+const DIFF_WIDTH = 64;
+const DIFF_HEIGHT = 36;
+const CUT_THRESHOLD = 0.18;
+const MAX_SAMPLES = 1200;
+const MIN_SAMPLE_STEP = 0.5;
+const MAX_CHAPTERS = 40;
+const KEYFRAME_WIDTH = 640;
+const THUMBNAIL_WIDTH = 160;
+
+const STORAGE_PREFIX = "scene-detective:scene-index:";
+
+// Share of the progress bar spent on cut detection vs. per-scene summaries
+const CUT_PHASE_WEIGHT = 0.5;
+// Some codecs (or files with sparse keyframes) never fire "seeked" for certain times
+const SEEK_TIMEOUT_MS = 10000;
+
+const loadVideo = (src: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.preload = "auto";
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load video for scanning"));
+    video.src = src;
+  });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError("Scene scan cancelled"));
+      return;
+    }
+    const settle = (error?: unknown) => {
+      clearTimeout(timer);
+      video.removeEventListener("seeked", onSeeked);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onSeeked = () => settle();
+    const onAbort = () => settle(abortError("Scene scan cancelled"));
+    const timer = setTimeout(() => settle(new Error(`Seeking to ${time.toFixed(1)}s timed out`)), SEEK_TIMEOUT_MS);
+
+    video.addEventListener("seeked", onSeeked);
+    signal?.addEventListener("abort", onAbort);
+    video.currentTime = time;
+  });
+};
+
+const grabFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, width: number, quality: number): string => {
+  const ctx = canvas.getContext("2d")!;
+  const scale = Math.min(1, width / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+};
+
+const grabLuma = (video: HTMLVideoElement, canvas: HTMLCanvasElement): Float32Array => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  canvas.width = DIFF_WIDTH;
+  canvas.height = DIFF_HEIGHT;
+  ctx.drawImage(video, 0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+
+  const luma = new Float32Array(DIFF_WIDTH * DIFF_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return luma;
+};
+
+const meanAbsDiff = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+// Seek through the clip and return scene boundaries (start times, first is always 0)
+const detectShotCuts = async (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  { onProgress, signal }: SceneScanOptions
+): Promise<number[]> => {
+  const duration = video.duration;
+  const step = Math.max(MIN_SAMPLE_STEP, duration / MAX_SAMPLES);
+  // Long clips would otherwise produce more chapters than are useful (or affordable to summarize)
+  const minSceneSeconds = Math.max(2, duration / MAX_CHAPTERS);
+
+  const cuts = [0];
+  let previous: Float32Array | null = null;
+
+  for (let t = 0; t < duration; t += step) {
+    if (signal?.aborted) throw abortError("Scene scan cancelled");
+    await seekTo(video, t, signal);
+
+    const luma = grabLuma(video, canvas);
+    if (previous && meanAbsDiff(previous, luma) > CUT_THRESHOLD && t - cuts[cuts.length - 1] >= minSceneSeconds) {
+      cuts.push(t);
+    }
+    previous = luma;
+    onProgress?.((t / duration) * CUT_PHASE_WEIGHT);
+  }
+
+  return cuts;
+};
+
+// Walk a clip offline: find shot cuts locally, then summarize one keyframe per scene
+export const buildSceneIndex = async (
+  src: string,
+  mediaKey: string,
+  canvas: HTMLCanvasElement,
+  summarize: (keyframe: string, signal?: AbortSignal) => Promise<SceneSummary>,
+  options: SceneScanOptions = {}
+): Promise<SceneIndex> => {
+  const { onProgress, signal } = options;
+  const video = await loadVideo(src);
+
+  try {
+    const duration = video.duration;
+    const cuts = await detectShotCuts(video, canvas, options);
+    const chapters: SceneChapter[] = [];
+
+    for (let i = 0; i < cuts.length; i++) {
+      if (signal?.aborted) throw abortError("Scene scan cancelled");
+
+      const start = cuts[i];
+      const end = i + 1 < cuts.length ? cuts[i + 1] : duration;
+      // The middle of a scene is more representative than its (often transitional) first frame
+      await seekTo(video, start + (end - start) / 2, signal);
+
+      const keyframe = grabFrame(video, canvas, KEYFRAME_WIDTH, 0.8);
+      const thumbnail = grabFrame(video, canvas, THUMBNAIL_WIDTH, 0.5);
+      // Cancelling also drops the summary request in flight
+      const { summary, cast } = await summarize(keyframe, signal);
+
+      chapters.push({ start, end, thumbnail, summary, cast });
+      onProgress?.(CUT_PHASE_WEIGHT + ((i + 1) / cuts.length) * (1 - CUT_PHASE_WEIGHT));
+    }
+
+    return { mediaKey, duration, createdAt: Date.now(), chapters };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+};
+
+export const loadSceneIndex = (mediaKey: string): SceneIndex | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + mediaKey);
+    return raw ? JSON.parse(raw) as SceneIndex : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSceneIndex = (index: SceneIndex) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + index.mediaKey, JSON.stringify(index));
+  } catch (error) {
+    // Quota exceeded: the index still works for this session, it just won't be remembered
+    console.warn("Failed to persist scene index", error);
+  }
+};
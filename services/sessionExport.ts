@@ -0,0 +1,229 @@
+import { GroundingMetadata } from "@google/genai";
+import { ViewingSession } from "../types";
+import { getCitedSources } from "./citations";
+import { downloadTextFile, toFileSlug } from "./download";
+import { InlineNode, MarkdownBlock, parseMarkdown } from "./markdown";
+import { formatTimestamp } from "./timeFormat";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export const SESSION_SCHEMA = "scene-detective/session@1";
+
+export interface ExportedSource {
+  title: string;
+  uri: string;
+}
+
+// Structured export format; `answer` keeps the model's Markdown (e.g. **bold**) untouched
+export interface SessionExport {
+  schema: typeof SESSION_SCHEMA;
+  exportedAt: string;
+  mediaTitle: string;
+  startedAt: string;
+  questions: {
+    timestamp: number;
+    timestampLabel: string;
+    askedAt: string;
+    question: string;
+    answer: string;
+    sources: ExportedSource[];
+    thumbnail: string;
+  }[];
+  castTags: {
+    timestamp: number;
+    timestampLabel: string;
+    taggedAt: string;
+    names: string[];
+    boxes: { name: string; ymin: number; xmin: number; ymax: number; xmax: number }[];
+    thumbnail: string;
+  }[];
+}
+
+// Same sources (and numbering) as the ResultCard tiles and citation markers
+export const getGroundingSources = (groundingMetadata: GroundingMetadata | undefined): ExportedSource[] =>
+  getCitedSources(groundingMetadata).map(({ title, uri }) => ({ title, uri }));
+
+export const toSessionExport = (session: ViewingSession): SessionExport => ({
+  schema: SESSION_SCHEMA,
+  exportedAt: new Date().toISOString(),
+  mediaTitle: session.mediaTitle,
+  startedAt: new Date(session.startedAt).toISOString(),
+  questions: session.questions.map(q => ({
+    timestamp: q.timestamp,
+    timestampLabel: formatTimestamp(q.timestamp),
+    askedAt: new Date(q.createdAt).toISOString(),
+    question: q.query,
+    answer: q.answer,
+    sources: getGroundingSources(q.groundingMetadata),
+    thumbnail: q.thumbnail,
+  })),
+  castTags: session.castTags.map(tag => ({
+    timestamp: tag.timestamp,
+    timestampLabel: formatTimestamp(tag.timestamp),
+    taggedAt: new Date(tag.createdAt).toISOString(),
+    names: tag.boxes.map(b => b.name),
+    boxes: tag.boxes.map(({ name, ymin, xmin, ymax, xmax }) => ({ name, ymin, xmin, ymax, xmax })),
+    thumbnail: tag.thumbnail,
+  })),
+});
+
+export const toMarkdown = (session: ViewingSession): string => {
+  const data = toSessionExport(session);
+  const lines: string[] = [
+    `# Scene Detective — ${data.mediaTitle}`,
+    "",
+    `_Session started ${new Date(session.startedAt).toLocaleString()}_`,
+    "",
+  ];
+
+  if (data.questions.length > 0) {
+    lines.push("## Questions", "");
+    for (const q of data.questions) {
+      lines.push(`### [${q.timestampLabel}] ${q.question}`, "");
+      lines.push(`![Frame at ${q.timestampLabel}](${q.thumbnail})`, "");
+      lines.push(q.answer.trim(), "");
+      if (q.sources.length > 0) {
+        lines.push("**Sources**", "");
+        q.sources.forEach(src => lines.push(`- [${src.title.replace(/[[\]]/g, "")}](${src.uri})`));
+        lines.push("");
+      }
+    }
+  }
+
+  if (data.castTags.length > 0) {
+    lines.push("## Cast", "");
+    for (const tag of data.castTags) {
+      lines.push(`### [${tag.timestampLabel}] ${tag.names.join(", ")}`, "");
+      lines.push(`![Frame at ${tag.timestampLabel}](${tag.thumbnail})`, "");
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+
+const safeUrl = (uri: string) => /^https?:\/\//i.test(uri) ? escapeHtml(uri) : "#";
+
+const inlineToHtml = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case "text": return escapeHtml(node.text);
+      case "strong": return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case "em": return `<em>${inlineToHtml(node.children)}</em>`;
+      case "del": return `<del>${inlineToHtml(node.children)}</del>`;
+      case "code": return `<code>${escapeHtml(node.text)}</code>`;
+      case "link": return `<a href="${safeUrl(node.href)}" target="_blank" rel="noopener noreferrer">${inlineToHtml(node.children)}</a>`;
+      case "break": return "<br>";
+      case "citation": return `<sup>[${node.sources.join(",")}]</sup>`;
+    }
+  }).join("");
+
+// Same parser as the ResultCard; every piece of model text is escaped on the way out
+const blocksToHtml = (blocks: MarkdownBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case "heading": return `<h4>${inlineToHtml(block.children)}</h4>`;
+      case "paragraph": return `<p>${inlineToHtml(block.children)}</p>`;
+      case "list": {
+        const items = block.items.map(item => `<li>${inlineToHtml(item.content)}${blocksToHtml(item.children)}</li>`).join("");
+        return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+      }
+      case "code": return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case "table": {
+        const cell = (tag: string, content: InlineNode[], c: number) =>
+          `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ""}>${inlineToHtml(content)}</${tag}>`;
+        const head = `<tr>${block.header.map((content, c) => cell("th", content, c)).join("")}</tr>`;
+        const rows = block.rows.map(row => `<tr>${row.map((content, c) => cell("td", content, c)).join("")}</tr>`).join("");
+        return `<table><thead>${head}</thead><tbody>${rows}</tbody></table>`;
+      }
+      case "quote": return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case "rule": return "<hr>";
+    }
+  }).join("\n");
+
+const answerToHtml = (answer: string) => blocksToHtml(parseMarkdown(answer));
+
+export const toPrintableHtml = (session: ViewingSession): string => {
+  const data = toSessionExport(session);
+  const title = escapeHtml(data.mediaTitle);
+
+  const questions = data.questions.map(q => `
+    <section class="entry">
+      <img src="${escapeHtml(q.thumbnail)}" alt="Frame at ${q.timestampLabel}">
+      <div>
+        <p class="time">${q.timestampLabel}</p>
+        <h3>${escapeHtml(q.question)}</h3>
+        ${answerToHtml(q.answer)}
+        ${q.sources.length > 0 ? `<ol class="sources">${q.sources.map(src =>
+          `<li><a href="${safeUrl(src.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(src.title)}</a><br><span>${escapeHtml(src.uri)}</span></li>`
+        ).join("")}</ol>` : ""}
+      </div>
+    </section>`).join("");
+
+  const cast = data.castTags.map(tag => `
+    <section class="entry">
+      <img src="${escapeHtml(tag.thumbnail)}" alt="Frame at ${tag.timestampLabel}">
+      <div>
+        <p class="time">${tag.timestampLabel}</p>
+        <h3>${tag.names.map(escapeHtml).join(", ")}</h3>
+      </div>
+    </section>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Scene Detective — ${title}</title>
+<style>
+  body { font-family: "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; max-width: 820px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 16px; text-transform: uppercase; letter-spacing: 0.08em; color: #2563eb; border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; margin-top: 32px; }
+  h3 { font-size: 16px; margin: 0 0 8px; }
+  .meta { color: #6b7280; font-size: 13px; }
+  .entry { display: flex; gap: 16px; padding: 16px 0; border-bottom: 1px solid #f3f4f6; break-inside: avoid; page-break-inside: avoid; }
+  .entry img { width: 200px; height: auto; border-radius: 6px; flex-shrink: 0; align-self: flex-start; }
+  .time { font-family: monospace; font-size: 12px; color: #2563eb; margin: 0 0 4px; }
+  .sources { font-size: 12px; color: #374151; padding-left: 18px; }
+  .sources span { color: #9ca3af; word-break: break-all; }
+  a { color: #2563eb; }
+  h4 { font-size: 14px; margin: 12px 0 4px; }
+  code { font-family: monospace; font-size: 12px; background: #f3f4f6; padding: 1px 4px; border-radius: 4px; }
+  pre { background: #f3f4f6; padding: 8px 12px; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; font-size: 13px; margin: 8px 0; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; }
+  blockquote { border-left: 3px solid #e5e7eb; margin: 8px 0; padding-left: 12px; color: #4b5563; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    a { color: inherit; text-decoration: none; }
+  }
+</style>
+</head>
+<body>
+  <h1>Scene Detective — ${title}</h1>
+  <p class="meta">Session started ${escapeHtml(new Date(session.startedAt).toLocaleString())} · exported ${escapeHtml(new Date(data.exportedAt).toLocaleString())}</p>
+  ${data.questions.length > 0 ? `<h2>Questions</h2>${questions}` : ""}
+  ${data.castTags.length > 0 ? `<h2>Cast</h2>${cast}` : ""}
+</body>
+</html>
+`;
+};
+
+const EXPORTERS: Record<ExportFormat, { extension: string; mimeType: string; render: (session: ViewingSession) => string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown", render: toMarkdown },
+  json: { extension: "json", mimeType: "application/json", render: s => JSON.stringify(toSessionExport(s), null, 2) },
+  html: { extension: "html", mimeType: "text/html", render: toPrintableHtml },
+};
+
+// Render the session and hand it to the browser as a file download
+export const downloadSession = (session: ViewingSession, format: ExportFormat) => {
+  const { extension, mimeType, render } = EXPORTERS[format];
+  downloadTextFile(render(session), `scene-detective-${toFileSlug(session.mediaTitle, "session")}.${extension}`, mimeType);
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { cuesAround, mergeCues, parseSubtitles, toWebVTT } from "./subtitles";
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<i>Where were you?</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+Out.
+{\\an8}Just out.
+
+3
+01:02:03,400 --> 01:02:05,000
+Tom &amp; Jerry
+`;
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE written by hand
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.000 --> 00:02.500 line:0 position:20% align:start
+<v Celia>Hold the door!
+
+00:03.000 --> 00:04.000
+<c.yellow>Too late.</c>
+`;
+
+describe("parseSubtitles", () => {
+  it("parses SubRip, stripping markup and decoding entities", () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { start: 1, end: 3.5, text: "Where were you?" },
+      { start: 4, end: 6, text: "Out.\nJust out." },
+      { start: 3723.4, end: 3725, text: "Tom & Jerry" },
+    ]);
+  });
+
+  it("parses WebVTT with hour-less times, cue settings and identifiers, skipping header blocks", () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { start: 1, end: 2.5, text: "Celia: Hold the door!" },
+      { start: 3, end: 4, text: "Too late." },
+    ]);
+  });
+
+  it("handles a byte order mark and Windows line endings", () => {
+    const windows = "\uFEFF" + SRT.replace(/\n/g, "\r\n");
+
+    expect(parseSubtitles(windows)).toEqual(parseSubtitles(SRT));
+  });
+
+  it("drops cues with bad times, no duration or no text, and sorts the rest", () => {
+    const source = [
+      "00:00:09,000 --> 00:00:10,000\nLater",
+      "00:00:05,000 --> 00:00:04,000\nBackwards",
+      "nonsense --> 00:00:02,000\nBad start",
+      "00:00:02,000 --> 00:00:03,000\n<i></i>",
+      "00:00:01,000 --> 00:00:02,000\nEarlier",
+    ].join("\n\n");
+
+    expect(parseSubtitles(source)).toEqual([
+      { start: 1, end: 2, text: "Earlier" },
+      { start: 9, end: 10, text: "Later" },
+    ]);
+  });
+
+  it("returns nothing for text without cues", () => {
+    expect(parseSubtitles("")).toEqual([]);
+    expect(parseSubtitles("WEBVTT\n\nNOTE nothing here")).toEqual([]);
+  });
+});
+
+describe("toWebVTT", () => {
+  it("round-trips through parseSubtitles", () => {
+    const cues = parseSubtitles(SRT);
+    const vtt = toWebVTT(cues);
+
+    expect(vtt.startsWith("WEBVTT\n\n00:00:01.000 --> 00:00:03.500\n")).toBe(true);
+    expect(parseSubtitles(vtt)).toEqual(cues);
+  });
+});
+
+describe("cuesAround", () => {
+  const everySecond = Array.from({ length: 60 }, (_, i) => ({ start: i, end: i + 0.8, text: `line ${i}` }));
+
+  it("keeps cues from 20 s before to 5 s after the pause, most recent 12", () => {
+    const around = cuesAround(everySecond, 30);
+
+    expect(around).toHaveLength(12);
+    expect(around[0].text).toBe("line 24");
+    expect(around[around.length - 1].text).toBe("line 35");
+  });
+
+  it("includes a long cue that started before the window but is still showing", () => {
+    const cues = [{ start: 0, end: 40, text: "long" }, { start: 45, end: 46, text: "after" }, { start: 80, end: 81, text: "far" }];
+
+    expect(cuesAround(cues, 41).map(c => c.text)).toEqual(["long", "after"]);
+  });
+
+  it("returns nothing when no cue is near", () => {
+    expect(cuesAround(everySecond, 200)).toEqual([]);
+  });
+});
+
+describe("mergeCues", () => {
+  const existing = [
+    { start: 0, end: 2, text: "a" },
+    { start: 10, end: 12, text: "b" },
+    { start: 20, end: 22, text: "c" },
+  ];
+
+  it("replaces the cues the new ones overlap and keeps the order", () => {
+    const incoming = [{ start: 9, end: 11, text: "B1" }, { start: 11, end: 13, text: "B2" }];
+
+    expect(mergeCues(existing, incoming)).toEqual([existing[0], ...incoming, existing[2]]);
+  });
+
+  it("keeps cues that only touch the new range", () => {
+    const incoming = [{ start: 2, end: 10, text: "between" }];
+
+    expect(mergeCues(existing, incoming).map(c => c.text)).toEqual(["a", "between", "b", "c"]);
+  });
+
+  it("returns the existing cues when there is nothing new", () => {
+    expect(mergeCues(existing, [])).toBe(existing);
+  });
+});
@@ -0,0 +1,75 @@
+import { SubtitleCue } from "../types";
+
+// How much dialogue around the pause goes into the prompt
+const CONTEXT_BEFORE_SECONDS = 20;
+const CONTEXT_AFTER_SECONDS = 5;
+const MAX_CONTEXT_CUES = 12;
+
+export const isSubtitleFile = (file: File) => /\.(srt|vtt)$/i.test(file.name);
+
+// "01:02:03,456", "02:03.456" or "1:02:03.4" -> seconds
+const parseTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+};
+
+// Strip WebVTT/SRT inline markup (<i>, <c.yellow>, <v Speaker>, {\an8}) but keep the words
+const cleanText = (lines: string[]) =>
+  lines
+    .join("\n")
+    .replace(/<v\s+([^>]+)>/gi, "$1: ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+
+// Parse SubRip or WebVTT text into cues; both share the "start --> end" timing line
+export const parseSubtitles = (source: string): SubtitleCue[] => {
+  const blocks = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n").filter(line => line.trim() !== "");
+    const timingIndex = lines.findIndex(line => line.includes("-->"));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, or a stray cue number
+
+    const [rawStart, rawEnd] = lines[timingIndex].split("-->");
+    const start = parseTime(rawStart);
+    // VTT cue settings ("00:01.000 --> 00:02.000 line:0") follow the end time
+    const end = parseTime(rawEnd.trim().split(/\s+/)[0]);
+    const text = cleanText(lines.slice(timingIndex + 1));
+    if (start === null || end === null || end <= start || !text) continue;
+
+    cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+const formatVttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// <track> only understands WebVTT, so .srt files are re-serialized
+export const toWebVTT = (cues: SubtitleCue[]) =>
+  ["WEBVTT", "", ...cues.map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${cue.text}\n`)].join("\n");
+
+// Cues overlapping the window before (and just after) `time`, capped to the most recent ones
+export const cuesAround = (cues: SubtitleCue[], time: number): SubtitleCue[] =>
+  cues
+    .filter(cue => cue.end >= time - CONTEXT_BEFORE_SECONDS && cue.start <= time + CONTEXT_AFTER_SECONDS)
+    .slice(-MAX_CONTEXT_CUES);
+
+// Add freshly transcribed cues, replacing any older ones they overlap (e.g. after seeking back)
+export const mergeCues = (existing: SubtitleCue[], incoming: SubtitleCue[]): SubtitleCue[] => {
+  if (incoming.length === 0) return existing;
+  const from = Math.min(...incoming.map(cue => cue.start));
+  const to = Math.max(...incoming.map(cue => cue.end));
+  return [...existing.filter(cue => cue.end <= from || cue.start >= to), ...incoming].sort((a, b) => a.start - b.start);
+};
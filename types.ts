@@ -1,7 +1,182 @@
+export interface ConversationTurn {
+  query: string;
+  answer: string;
+  groundingMetadata?: any;
+  // Served from the local response cache rather than a fresh model call
+  fromCache?: boolean;
+}
 
-export interface AnalysisResult {
+// Downscaled frame sampled during playback, timestamped in media seconds
+export interface TimedFrame {
+  timestamp: number;
+  imageData: string;
+}
+
+// One subtitle line (from an .srt/.vtt file), times in media seconds
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A saved question/answer, replayable from the history panel
+export interface HistoryEntry {
+  id?: number;
+  mediaTitle: string;
+  query: string;
   answer: string;
   groundingMetadata?: any;
+  thumbnail: string;
+  // Media time (seconds) of the frame the question was asked about
+  timestamp: number;
+  createdAt: number;
+}
+
+// Cast tags from one "Identify Cast" run, kept for session export
+export interface SessionCastTag {
+  boxes: BoundingBox[];
+  thumbnail: string;
+  timestamp: number;
+  createdAt: number;
+}
+
+// Everything asked and identified since the current media was loaded
+export interface ViewingSession {
+  mediaTitle: string;
+  startedAt: number;
+  questions: HistoryEntry[];
+  castTags: SessionCastTag[];
+}
+
+// A chat thread anchored to the paused frame (and audio clip) it was started from
+export interface AnalysisResult {
+  imageData: string;
+  audioData?: string | null;
+  recentFrames?: TimedFrame[];
+  // Media time of the frame; also set for threads reopened from history, which have no media context
+  timestamp?: number;
+  subtitles?: SubtitleCue[];
+  transcript?: SubtitleCue[];
+  region?: FrameRegion;
+  regionImageData?: string;
+  roster?: CastRoster | null;
+  media?: MediaContext;
+  turns: ConversationTurn[];
+}
+
+// Lets the caller abandon a request, including any backoff wait before a retry
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnalysisRequest extends RequestOptions {
+  imageData: string;
+  query: string;
+  audioData?: string | null;
+  // What is playing and where the frame was taken
+  media?: MediaContext;
+  // Frames from the seconds before the pause, oldest first
+  recentFrames?: TimedFrame[];
+  // Subtitle lines around the paused moment, oldest first
+  subtitles?: SubtitleCue[];
+  // Auto-generated transcript lines around the paused moment (when there are no subtitles)
+  transcript?: SubtitleCue[];
+  // Part of the frame the question is about, plus a full-resolution crop of it
+  region?: FrameRegion;
+  regionImageData?: string;
+  roster?: CastRoster | null;
+  // Earlier turns of the thread, oldest first
+  history?: ConversationTurn[];
+  // Skip the response cache and always ask the model
+  fresh?: boolean;
+}
+
+export interface DetectionOptions extends RequestOptions {
+  fresh?: boolean;
+  media?: MediaContext;
+  // Who the user says is in this title; replaces guessing from general knowledge
+  roster?: CastRoster | null;
+}
+
+// What is playing, passed with every request so prompts can use the plot context
+export interface MediaContext {
+  // Derived from the file name
+  title: string;
+  // User-entered (from the cast roster)
+  show?: string;
+  season?: number;
+  episode?: number;
+  // Media seconds; only for video
+  currentTime?: number;
+  duration?: number;
+  mediaType: 'video' | 'image';
+}
+
+export interface RosterCharacter {
+  name: string;
+  // Empty when the user doesn't know or care
+  actor: string;
+  // Small data URL photo, sent along so the model can match faces
+  referenceImage?: string;
+}
+
+// User-supplied cast list for one loaded title, injected into detection and question prompts
+export interface CastRoster {
+  mediaTitle: string;
+  show: string;
+  season?: number;
+  episode?: number;
+  characters: RosterCharacter[];
+  updatedAt: number;
+}
+
+// Backend that answers questions about a frame, finds characters and products in it and transcribes audio
+export interface SceneAnalysisProvider {
+  readonly name: string;
+  analyzeFrameWithQuery(request: AnalysisRequest, onText?: (partialAnswer: string) => void): Promise<ConversationTurn>;
+  detectCharactersInFrame(base64Image: string, options?: DetectionOptions): Promise<DetectionResult<BoundingBox>>;
+  detectProductsInFrame(base64Image: string, options?: DetectionOptions): Promise<DetectionResult<DetectedProduct>>;
+  summarizeScene(base64Image: string, options?: RequestOptions): Promise<SceneSummary>;
+  // Speech in an audio clip (data URL); cue times are relative to the start of the clip
+  transcribeAudio(audioData: string, options?: RequestOptions): Promise<SubtitleCue[]>;
+}
+
+// What happened to a detection response on its way to the canvas
+export interface DetectionDiagnostics {
+  // Items in the response, before anything was dropped or merged
+  received: number;
+  // Kept items with a coordinate outside 0-1000
+  clamped: number;
+  // Kept items whose min and max were swapped
+  reordered: number;
+  // Boxes folded into an overlapping box with the same name
+  merged: number;
+  // One per dropped item, plus one if the response wasn't an array at all
+  warnings: string[];
+}
+
+export interface DetectionResult<T> {
+  items: T[];
+  diagnostics: DetectionDiagnostics;
+}
+
+export interface SceneSummary {
+  summary: string;
+  cast: string[];
+}
+
+// One shot-detected scene of a scanned video (times in media seconds)
+export interface SceneChapter extends SceneSummary {
+  start: number;
+  end: number;
+  thumbnail: string;
+}
+
+export interface SceneIndex {
+  mediaKey: string;
+  duration: number;
+  createdAt: number;
+  chapters: SceneChapter[];
 }
 
 export interface BoundingBox {
@@ -12,11 +187,33 @@ export interface BoundingBox {
   xmax: number;
 }
 
+// A user-drawn rectangle on the paused frame, on the same 0-1000 scale as BoundingBox
+export interface FrameRegion {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+// A shoppable item found in a frame ("Shop the Scene"); box on the same 0-1000 scale as BoundingBox
+export interface DetectedProduct {
+  category: string;
+  description: string;
+  color: string;
+  // Best guess; empty when the model can't tell
+  brand: string;
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
 export enum AppState {
   UPLOAD = 'UPLOAD',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   ANALYZING = 'ANALYZING',
+  STREAMING = 'STREAMING',
   RESULT = 'RESULT',
   ERROR = 'ERROR'
 }
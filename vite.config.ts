@@ -4,15 +4,31 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a key configured the browser talks to the API proxy (npm run server), which holds it;
+    // SCENE_PROVIDER=gemini opts back into calling Gemini directly, for local experiments only
+    const provider = env.SCENE_PROVIDER || (env.GEMINI_API_KEY ? 'proxy' : 'mock');
+    // Anything defined here is inlined into the bundle, so the key only goes in when explicitly asked for
+    const clientKey = provider === 'gemini' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            rewrite: (requestPath) => requestPath.replace(/^\/api/, ''),
+            xfwd: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientKey),
+        'process.env.SCENE_PROVIDER': JSON.stringify(provider),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.AUDIO_MAX_KB': JSON.stringify(env.AUDIO_MAX_KB)
       },
       resolve: {
         alias: {